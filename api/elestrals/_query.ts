@@ -0,0 +1,380 @@
+// Query language for /api/elestrals/search. Lives under a leading underscore
+// so Vercel doesn't deploy it as a route of its own.
+//
+//   ignoth flame            name words, typo tolerant, any order
+//   "ignoth, the flame"     phrase, matched as written (ignoring case/accents)
+//   element:fire cost<=3    qualifiers, all of which must match
+//   -type:rune  NOT foil:yes  negation
+//   element:fire OR element:water, (a OR b) c  alternatives and grouping
+
+import type { ElestralsCard } from "../../server/elestrals/cards";
+import { STANDARD_VARIANT } from "../../server/elestrals/facets";
+import { foldText, searchCards, type ScoredCard, type SearchIndex } from "../../server/elestrals/search-index";
+
+type Operator = ":" | "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+type FieldKind = "name" | "text" | "number" | "flag";
+
+interface FieldDefinition {
+  kind: FieldKind;
+  aliases: string[];
+  read: (card: ElestralsCard) => string[] | number | boolean | undefined;
+}
+
+const FIELDS: Record<string, FieldDefinition> = {
+  name: { kind: "name", aliases: ["n"], read: (card) => [card.name] },
+  element: { kind: "text", aliases: ["e", "el", "elements"], read: (card) => card.elements },
+  type: { kind: "text", aliases: ["t", "cardtype"], read: (card) => (card.cardType ? [card.cardType] : undefined) },
+  subtype: { kind: "text", aliases: ["st", "sub"], read: (card) => (card.subtype ? [card.subtype] : undefined) },
+  rarity: { kind: "text", aliases: ["r"], read: (card) => (card.rarity ? [card.rarity] : undefined) },
+  set: {
+    kind: "text",
+    aliases: ["s"],
+    read: (card) => [card.setCode, card.setName].filter((value): value is string => Boolean(value)),
+  },
+  number: {
+    kind: "text",
+    aliases: ["no", "collector"],
+    read: (card) => [card.collectorNumber, card.setNumber].filter((value): value is string => Boolean(value)),
+  },
+  variant: { kind: "text", aliases: ["v", "printing"], read: (card) => [card.variant ?? STANDARD_VARIANT] },
+  artist: { kind: "text", aliases: ["a", "art", "illustrator"], read: (card) => (card.artist ? [card.artist] : undefined) },
+  text: { kind: "text", aliases: ["o", "info", "effect"], read: (card) => (card.info ? [card.info] : undefined) },
+  cost: { kind: "number", aliases: ["c"], read: (card) => card.cost },
+  attack: { kind: "number", aliases: ["atk", "att"], read: (card) => card.attack },
+  defense: { kind: "number", aliases: ["def", "defence"], read: (card) => card.defense },
+  foil: { kind: "flag", aliases: [], read: (card) => card.isFoil ?? false },
+};
+
+const FIELD_LOOKUP = new Map(
+  Object.entries(FIELDS).flatMap(([name, field]) => [name, ...field.aliases].map((alias) => [alias, name] as const)),
+);
+
+const NUMERIC_FIELDS = Object.keys(FIELDS).filter((name) => FIELDS[name].kind === "number");
+
+export type QueryNode =
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode }
+  /** Name match: fuzzy for bare words, as written for quoted phrases. */
+  | { kind: "name"; text: string; fuzzy: boolean }
+  | { kind: "field"; field: string; op: Operator; value: string };
+
+/** What went wrong, and where in the query (character offsets). */
+export interface QueryParseError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+type Token =
+  | { kind: "lparen" | "rparen" | "or" | "not"; start: number; end: number }
+  | { kind: "word"; text: string; quoted: boolean; start: number; end: number }
+  | { kind: "field"; field: string; op: Operator; value: string; start: number; end: number };
+
+class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly start: number,
+    readonly end: number,
+  ) {
+    super(message);
+  }
+}
+
+const FIELD_PATTERN = /^([a-z]+)(:|!=|<=|>=|=|<|>)(.*)$/i;
+const DELIMITERS = /[\s()"]/;
+
+const readQuoted = (input: string, start: number) => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) throw new QuerySyntaxError('Missing closing quote (").', start, input.length);
+  return { text: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < input.length) {
+    const char = input[position];
+    if (/\s/.test(char)) {
+      position += 1;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen", start: position, end: position + 1 });
+      position += 1;
+    } else if (char === '"') {
+      const { text, end } = readQuoted(input, position);
+      tokens.push({ kind: "word", text, quoted: true, start: position, end });
+      position = end;
+    } else if (char === "-" && position + 1 < input.length && !/\s/.test(input[position + 1])) {
+      tokens.push({ kind: "not", start: position, end: position + 1 });
+      position += 1;
+    } else {
+      const start = position;
+      while (position < input.length && !DELIMITERS.test(input[position])) position += 1;
+      const word = input.slice(start, position);
+      if (word === "OR" || word === "|") {
+        tokens.push({ kind: "or", start, end: position });
+        continue;
+      }
+      if (word === "NOT") {
+        tokens.push({ kind: "not", start, end: position });
+        continue;
+      }
+      if (word === "AND") continue;
+
+      // Only known field names start a qualifier. Anything else ("Vinoth:",
+      // a pasted URL) stays part of the name search, as before the syntax.
+      const match = word.match(FIELD_PATTERN);
+      const field = match ? FIELD_LOOKUP.get(match[1].toLowerCase()) : undefined;
+      if (!match || !field) {
+        tokens.push({ kind: "word", text: word, quoted: false, start, end: position });
+        continue;
+      }
+      const [, rawField, op, rawValue] = match;
+      let value = rawValue;
+      if (!value && input[position] === '"') {
+        const quoted = readQuoted(input, position);
+        value = quoted.text;
+        position = quoted.end;
+      }
+      if (!value.trim()) throw new QuerySyntaxError(`"${rawField}${op}" needs a value.`, start, position);
+      tokens.push({ kind: "field", field, op: op as Operator, value: value.trim(), start, end: position });
+    }
+  }
+  return tokens;
+};
+
+const validateField = (token: Extract<Token, { kind: "field" }>) => {
+  const { kind } = FIELDS[token.field];
+  const isComparison = token.op !== ":" && token.op !== "=" && token.op !== "!=";
+  if (kind === "number") {
+    if (!Number.isFinite(Number(token.value))) {
+      throw new QuerySyntaxError(`${token.field} needs a number, not "${token.value}".`, token.start, token.end);
+    }
+  } else if (isComparison) {
+    throw new QuerySyntaxError(
+      `"${token.op}" only works with ${NUMERIC_FIELDS.join(", ")}. Use ":" for ${token.field}.`,
+      token.start,
+      token.end,
+    );
+  }
+  if (kind === "flag" && !["yes", "no", "true", "false", "1", "0"].includes(token.value.toLowerCase())) {
+    throw new QuerySyntaxError(`${token.field} takes yes or no, not "${token.value}".`, token.start, token.end);
+  }
+};
+
+/** Recursive descent: OR binds loosest, then juxtaposition (AND), then negation. */
+const parseTokens = (tokens: Token[], inputLength: number): QueryNode => {
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      const orToken = tokens[index];
+      index += 1;
+      const next = peek();
+      if (!next || next.kind === "or" || next.kind === "rparen") {
+        throw new QuerySyntaxError('"OR" needs something on both sides.', orToken.start, orToken.end);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: "or", children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    // Bare words in one group form a single name search, so "flame ignoth"
+    // keeps the word-order and typo handling of a plain search.
+    const words: string[] = [];
+    let wordsAt = -1;
+    while (peek() && peek().kind !== "or" && peek().kind !== "rparen") {
+      const token = peek();
+      if (token.kind === "word" && !token.quoted) {
+        index += 1;
+        if (wordsAt === -1) wordsAt = children.length;
+        words.push(token.text);
+      } else {
+        children.push(parseUnary());
+      }
+    }
+    if (words.length) children.splice(wordsAt, 0, { kind: "name", text: words.join(" "), fuzzy: true });
+    if (!children.length) {
+      const token = peek();
+      if (!token) throw new QuerySyntaxError("Expected a search term.", inputLength, inputLength);
+      throw new QuerySyntaxError(
+        token.kind === "or" ? '"OR" needs something on both sides.' : 'Unexpected ")".',
+        token.start,
+        token.end,
+      );
+    }
+    return children.length === 1 ? children[0] : { kind: "and", children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind !== "not") return parsePrimary();
+    index += 1;
+    const next = peek();
+    if (!next || next.kind === "or" || next.kind === "rparen") {
+      throw new QuerySyntaxError("Nothing to exclude after negation.", token.start, token.end);
+    }
+    // A negated word excludes names containing it; typo tolerance would
+    // exclude far more than was typed.
+    if (next.kind === "word") {
+      index += 1;
+      return { kind: "not", child: { kind: "name", text: next.text, fuzzy: false } };
+    }
+    return { kind: "not", child: parseUnary() };
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index];
+    index += 1;
+    switch (token.kind) {
+      case "lparen": {
+        if (peek()?.kind === "rparen") throw new QuerySyntaxError("Empty parentheses.", token.start, peek().end);
+        const node = parseOr();
+        if (peek()?.kind !== "rparen") throw new QuerySyntaxError('Missing closing ")".', token.start, inputLength);
+        index += 1;
+        return node;
+      }
+      case "word":
+        return { kind: "name", text: token.text, fuzzy: !token.quoted };
+      case "field":
+        validateField(token);
+        if (FIELDS[token.field].kind === "name") {
+          return token.op === "!="
+            ? { kind: "not", child: { kind: "field", field: token.field, op: "=", value: token.value } }
+            : token.op === "="
+              ? { kind: "field", field: token.field, op: "=", value: token.value }
+              : { kind: "name", text: token.value, fuzzy: true };
+        }
+        return { kind: "field", field: token.field, op: token.op, value: token.value };
+      default:
+        throw new QuerySyntaxError(`Unexpected "${token.kind === "rparen" ? ")" : "OR"}".`, token.start, token.end);
+    }
+  };
+
+  const node = parseOr();
+  const leftover = peek();
+  if (leftover) throw new QuerySyntaxError('Unexpected ")".', leftover.start, leftover.end);
+  return node;
+};
+
+/** Parses a search box query. An empty query parses to null. */
+export const parseCardQuery = (input: string): { query: QueryNode | null; error: QueryParseError | null } => {
+  try {
+    const tokens = tokenize(input);
+    if (!tokens.length) return { query: null, error: null };
+    return { query: parseTokens(tokens, input.length), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { query: null, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+};
+
+const compare = (actual: number, op: Operator, expected: number) => {
+  switch (op) {
+    case ":":
+    case "=":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+  }
+};
+
+const matchesField = (card: ElestralsCard, node: Extract<QueryNode, { kind: "field" }>) => {
+  const field = FIELDS[node.field];
+  const actual = field.read(card);
+  if (field.kind === "number") {
+    return typeof actual === "number" && compare(actual, node.op, Number(node.value));
+  }
+  if (field.kind === "flag") {
+    const wanted = ["yes", "true", "1"].includes(node.value.toLowerCase());
+    return (actual === wanted) !== (node.op === "!=");
+  }
+  // ":" looks for the value inside the field, "=" wants the whole field.
+  const wanted = foldText(node.value);
+  const values = Array.isArray(actual) ? actual.map(foldText) : [];
+  const found = values.some((value) => (node.op === ":" ? value.includes(wanted) : value === wanted));
+  return node.op === "!=" ? !found : found;
+};
+
+const collectNameNodes = (node: QueryNode, negated = false): { node: QueryNode; negated: boolean }[] => {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return node.children.flatMap((child) => collectNameNodes(child, negated));
+    case "not":
+      return collectNameNodes(node.child, !negated);
+    case "name":
+      return [{ node, negated }];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Cards matching a parsed query, best name match first. Queries without name
+ * terms keep snapshot order.
+ */
+export const runCardQuery = (index: SearchIndex, query: QueryNode | null): ScoredCard[] => {
+  if (!query) return searchCards(index, "");
+
+  // Name scores per term, so each fuzzy search runs once per request.
+  const nameScores = new Map<QueryNode, Map<ElestralsCard, number>>();
+  const nameNodes = collectNameNodes(query);
+  for (const { node } of nameNodes) {
+    if (node.kind !== "name" || nameScores.has(node)) continue;
+    const scores = new Map(searchCards(index, node.text).map((match) => [match.card, match.score]));
+    if (!node.fuzzy) {
+      const phrase = foldText(node.text);
+      for (const card of scores.keys()) {
+        if (!foldText(card.name).includes(phrase)) scores.delete(card);
+      }
+    }
+    nameScores.set(node, scores);
+  }
+
+  const matches = (node: QueryNode, card: ElestralsCard): boolean => {
+    switch (node.kind) {
+      case "and":
+        return node.children.every((child) => matches(child, card));
+      case "or":
+        return node.children.some((child) => matches(child, card));
+      case "not":
+        return !matches(node.child, card);
+      case "name":
+        return nameScores.get(node)?.has(card) ?? false;
+      case "field":
+        return matchesField(card, node);
+    }
+  };
+
+  const rankedNodes = nameNodes.filter(({ negated }) => !negated).map(({ node }) => node);
+  // Cards that only matched through a qualifier (the other side of an OR)
+  // rank below every name match.
+  const scoreOf = (card: ElestralsCard) =>
+    rankedNodes.length ? Math.max(0.01, ...rankedNodes.map((node) => nameScores.get(node)?.get(card) ?? 0)) : 1;
+
+  return index.entries
+    .filter((entry) => matches(query, entry.card))
+    .map((entry) => ({ card: entry.card, score: scoreOf(entry.card), folded: entry.folded }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (rankedNodes.length ? a.folded.length - b.folded.length || a.folded.localeCompare(b.folded) : 0),
+    )
+    .map(({ card, score }) => ({ card, score }));
+};
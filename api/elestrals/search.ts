@@ -2,12 +2,13 @@
 
 import type { IncomingMessage, ServerResponse } from "http";
 import { readSnapshot, refreshSnapshot } from "../../server/elestrals/cards";
+import { buildFacets, matchesCardFilters, parseCardFilters } from "../../server/elestrals/facets";
+import { getSearchIndex } from "../../server/elestrals/search-index";
+import { parseCardQuery, runCardQuery } from "./_query";
 
 const DEFAULT_PAGE_SIZE = 50;
 const MAX_PAGE_SIZE = 100;
 
-const normalize = (value: string) => value.trim().toLowerCase();
-
 const clampNumber = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
 
 export default async function handler(req: IncomingMessage, res: ServerResponse) {
@@ -32,6 +33,16 @@ export default async function handler(req: IncomingMessage, res: ServerResponse)
   const pageSize = Number.isFinite(pageSizeParam)
     ? clampNumber(Math.floor(pageSizeParam), 1, MAX_PAGE_SIZE)
     : DEFAULT_PAGE_SIZE;
+  const filters = parseCardFilters(requestUrl.searchParams);
+  const includeScore = ["1", "true", "yes"].includes((requestUrl.searchParams.get("score") ?? "").toLowerCase());
+  const parsedQuery = parseCardQuery(query);
+
+  if (parsedQuery.error) {
+    res.statusCode = 400;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ error: parsedQuery.error.message, queryError: parsedQuery.error }));
+    return;
+  }
 
   const snapshot = await readSnapshot();
   const initialDataset = snapshot.datasets[cacheKey];
@@ -62,10 +73,12 @@ export default async function handler(req: IncomingMessage, res: ServerResponse)
     return;
   }
 
-  const normalizedQuery = normalize(query);
-  const filteredCards = normalizedQuery
-    ? dataset.cards.filter((card) => normalize(card.name).includes(normalizedQuery))
-    : dataset.cards;
+  const index = getSearchIndex(cacheKey, dataset);
+  const matches = runCardQuery(index, parsedQuery.query);
+  const queryCards = matches.map((match) => match.card);
+  const filteredCards = matches
+    .filter((match) => matchesCardFilters(match.card, filters))
+    .map((match) => (includeScore ? { ...match.card, score: match.score } : match.card));
   const total = filteredCards.length;
   const startIndex = (page - 1) * pageSize;
   const endIndex = startIndex + pageSize;
@@ -81,6 +94,8 @@ export default async function handler(req: IncomingMessage, res: ServerResponse)
       total,
       updatedAt: dataset.updatedAt,
       cards: pagedCards,
+      filters,
+      facets: buildFacets(queryCards, filters),
     }),
   );
 }
@@ -0,0 +1,59 @@
+/* eslint-env node */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { deleteLibraryItem, LIBRARY_TOKEN_HEADER } from "../../server/media/library";
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown) => {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const bodyChunks: Uint8Array[] = [];
+  for await (const chunk of req) {
+    bodyChunks.push(chunk);
+  }
+  const bodyString = Buffer.concat(bodyChunks).toString();
+  if (!bodyString.trim()) return {};
+  const parsed = JSON.parse(bodyString);
+  return parsed && typeof parsed === "object" ? parsed : {};
+};
+
+/**
+ * POST /api/media/delete with { id } and the x-media-library-token header.
+ *
+ * Deletes one of the caller's library items, and its file from storage when
+ * no other library or session uses it.
+ */
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== "POST") {
+    res.statusCode = 405;
+    res.end("Method Not Allowed");
+    return;
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonBody(req);
+  } catch {
+    sendJson(res, 400, { error: "Request body must be JSON." });
+    return;
+  }
+
+  const libraryToken = req.headers[LIBRARY_TOKEN_HEADER];
+  if (typeof libraryToken !== "string" || !libraryToken.trim()) {
+    sendJson(res, 401, { error: "Missing library token." });
+    return;
+  }
+  if (typeof body.id !== "string" || !uuidPattern.test(body.id)) {
+    sendJson(res, 400, { error: "Missing or invalid id." });
+    return;
+  }
+
+  const result = await deleteLibraryItem(libraryToken.trim(), body.id);
+  sendJson(res, result.status, result.body);
+}
@@ -0,0 +1,95 @@
+/* eslint-env node */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { inspectRemoteMedia } from "../../server/media/remote-media";
+import { CONTROL_TOKEN_HEADER, createControlClient } from "../../server/sessions/control";
+
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown) => {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const bodyChunks: Uint8Array[] = [];
+  for await (const chunk of req) {
+    bodyChunks.push(chunk);
+  }
+  const bodyString = Buffer.concat(bodyChunks).toString();
+  if (!bodyString.trim()) return {};
+  const parsed = JSON.parse(bodyString);
+  return parsed && typeof parsed === "object" ? parsed : {};
+};
+
+const isTruthy = (value: unknown) =>
+  value === true || (typeof value === "string" && ["1", "true", "yes"].includes(value.toLowerCase()));
+
+const readControlToken = (req: IncomingMessage) => {
+  const header = req.headers[CONTROL_TOKEN_HEADER];
+  if (typeof header === "string" && header.trim()) return header.trim();
+  const authorization = req.headers.authorization ?? "";
+  return authorization.toLowerCase().startsWith("bearer ") ? authorization.slice(7).trim() : "";
+};
+
+/**
+ * GET or POST /api/media/inspect?url=<link>[&cache=1&session=<id>]
+ *
+ * Checks that a link is an image or a supported video and reports its type
+ * and dimensions. With cache, the file is also copied to the images bucket;
+ * that writes to storage, so it needs the session's control token in the
+ * x-session-control-token (or Authorization: Bearer) header.
+ */
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.statusCode = 405;
+    res.end("Method Not Allowed");
+    return;
+  }
+
+  const requestUrl = new URL(req.url ?? "", `http://${req.headers.host ?? "localhost"}`);
+  let body: Record<string, unknown> = {};
+  if (req.method === "POST") {
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendJson(res, 400, { error: "Request body must be JSON." });
+      return;
+    }
+  }
+
+  const url = body.url ?? requestUrl.searchParams.get("url");
+  if (typeof url !== "string" || !url.trim()) {
+    sendJson(res, 400, { error: "Missing url." });
+    return;
+  }
+
+  const cache = isTruthy(body.cache ?? requestUrl.searchParams.get("cache"));
+  if (cache) {
+    const sessionId = body.session ?? requestUrl.searchParams.get("session");
+    const controlToken = readControlToken(req);
+    if (typeof sessionId !== "string" || !sessionId.trim() || !controlToken) {
+      sendJson(res, 401, { error: "Caching needs a session and its control token." });
+      return;
+    }
+    const client = createControlClient(controlToken);
+    if (!client) {
+      sendJson(res, 503, { error: "Supabase environment variables are missing." });
+      return;
+    }
+    const { data: hasControl, error } = await client.rpc("has_session_control", {
+      target_session_id: sessionId.trim(),
+    });
+    if (error) {
+      sendJson(res, 502, { error: error.message });
+      return;
+    }
+    if (!hasControl) {
+      sendJson(res, 401, { error: "Invalid control token." });
+      return;
+    }
+  }
+
+  const result = await inspectRemoteMedia(url.trim(), { cache });
+  sendJson(res, result.status, result.body);
+}
@@ -0,0 +1,95 @@
+/* eslint-env node */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import {
+  CONTROL_ACTIONS,
+  CONTROL_TOKEN_HEADER,
+  createControlClient,
+  isControlAction,
+  runControlAction,
+  type ControlParams,
+} from "../../server/sessions/control";
+
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown) => {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const bodyChunks: Uint8Array[] = [];
+  for await (const chunk of req) {
+    bodyChunks.push(chunk);
+  }
+  const bodyString = Buffer.concat(bodyChunks).toString();
+  if (!bodyString.trim()) return {};
+  const parsed = JSON.parse(bodyString);
+  return parsed && typeof parsed === "object" ? parsed : {};
+};
+
+// Hardware buttons (e.g. the Stream Deck "Website" action) can only open a
+// URL, so the token is also accepted as a query parameter.
+const readControlToken = (req: IncomingMessage, requestUrl: URL) => {
+  const header = req.headers[CONTROL_TOKEN_HEADER];
+  if (typeof header === "string" && header.trim()) return header.trim();
+  const authorization = req.headers.authorization ?? "";
+  if (authorization.toLowerCase().startsWith("bearer ")) return authorization.slice(7).trim();
+  return requestUrl.searchParams.get("token")?.trim() ?? "";
+};
+
+/**
+ * GET or POST /api/sessions/control?session=<id>&action=<action>
+ *
+ * Actions: state, reveal, hide, toggle, set-image (url, optional mediaType),
+ * next, previous. Parameters may come from the query string or a JSON body.
+ */
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.statusCode = 405;
+    res.end("Method Not Allowed");
+    return;
+  }
+
+  const requestUrl = new URL(req.url ?? "", `http://${req.headers.host ?? "localhost"}`);
+  let body: Record<string, unknown> = {};
+  if (req.method === "POST") {
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendJson(res, 400, { error: "Request body must be JSON." });
+      return;
+    }
+  }
+  const param = (key: string) => {
+    const value = body[key] ?? requestUrl.searchParams.get(key);
+    return typeof value === "string" ? value : undefined;
+  };
+
+  const sessionId = param("session")?.trim();
+  const action = param("action")?.trim() ?? "state";
+  if (!sessionId) {
+    sendJson(res, 400, { error: "Missing session." });
+    return;
+  }
+  if (!isControlAction(action)) {
+    sendJson(res, 400, { error: `Unknown action. Expected one of: ${CONTROL_ACTIONS.join(", ")}.` });
+    return;
+  }
+
+  const controlToken = readControlToken(req, requestUrl);
+  if (!controlToken) {
+    sendJson(res, 401, { error: "Missing control token." });
+    return;
+  }
+
+  const client = createControlClient(controlToken);
+  if (!client) {
+    sendJson(res, 503, { error: "Supabase environment variables are missing." });
+    return;
+  }
+
+  const params: ControlParams = { url: param("url"), mediaType: param("mediaType") };
+  const result = await runControlAction(client, sessionId, action, params);
+  sendJson(res, result.status, result.body);
+}
@@ -7,6 +7,21 @@ export interface ElestralsCard {
   imageUrl: string;
   setNumber?: string;
   info?: string;
+  elements?: string[];
+  /** Elestral, Rune, Spirit… */
+  cardType?: string;
+  subtype?: string;
+  rarity?: string;
+  setCode?: string;
+  setName?: string;
+  collectorNumber?: string;
+  cost?: number;
+  attack?: number;
+  defense?: number;
+  artist?: string;
+  /** Printing such as "Stellar" or "Alt Art"; absent for the standard print. */
+  variant?: string;
+  isFoil?: boolean;
 }
 
 type CacheKey = "base" | "all";
@@ -42,48 +57,101 @@ const CARD_SOURCES: Record<CacheKey, CardSource[]> = {
 const normalizeValue = (value?: string | number | null) =>
   value === null || value === undefined ? undefined : String(value).trim();
 
-const buildCard = (raw: Record<string, unknown>, fallbackId: string): ElestralsCard | null => {
-  const name =
-    normalizeValue(raw.name as string) ??
-    normalizeValue(raw.cardName as string) ??
-    normalizeValue(raw.title as string);
-  const imageUrl =
-    normalizeValue(raw.imageUrl as string) ??
-    normalizeValue(raw.image_url as string) ??
-    normalizeValue(raw.image as string) ??
-    normalizeValue(raw.img as string) ??
-    normalizeValue(raw.cardImage as string);
+type RawCard = Record<string, unknown>;
+
+// Upstream payloads have used several shapes, so every field lists the aliases
+// it has appeared under. Dotted aliases reach into nested objects (`set.name`).
+const readAlias = (raw: RawCard, alias: string) =>
+  alias
+    .split(".")
+    .reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as RawCard)[key] : undefined), raw);
+
+const pickText = (raw: RawCard, aliases: string[]) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    if (typeof value !== "string" && typeof value !== "number") continue;
+    const text = normalizeValue(value);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+const pickNumber = (raw: RawCard, aliases: string[]) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    // A cost listed as spirits (["Fire", "Fire"]) counts one per spirit.
+    const number =
+      typeof value === "number"
+        ? value
+        : typeof value === "string"
+          ? Number.parseFloat(value)
+          : Array.isArray(value) && value.length
+            ? value.length
+            : Number.NaN;
+    if (Number.isFinite(number)) return number;
+  }
+  return undefined;
+};
+
+const pickList = (raw: RawCard, aliases: string[]) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    const items = (Array.isArray(value) ? value : [value])
+      .map((item) => (item && typeof item === "object" ? (item as RawCard).name : item))
+      .flatMap((item) => (typeof item === "string" ? item.split(/[/,&]/) : []))
+      .map((item) => item.trim())
+      .filter(Boolean);
+    if (items.length) return [...new Set(items)];
+  }
+  return undefined;
+};
+
+const pickFlag = (raw: RawCard, aliases: string[]) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    if (typeof value === "boolean") return value;
+    if (value === 1 || value === "true") return true;
+    if (value === 0 || value === "false") return false;
+  }
+  return undefined;
+};
+
+const buildCard = (raw: RawCard, fallbackId: string): ElestralsCard | null => {
+  const name = pickText(raw, ["name", "cardName", "title"]);
+  const imageUrl = pickText(raw, ["imageUrl", "image_url", "image", "img", "cardImage", "image.url"]);
   if (!name || !imageUrl) return null;
 
-  const setNumber =
-    normalizeValue(raw.setNumber as string) ??
-    normalizeValue(raw.set_number as string) ??
-    normalizeValue(raw.cardNumber as string) ??
-    normalizeValue(raw.number as string) ??
-    normalizeValue(raw.set as string);
-  const info =
-    normalizeValue(raw.info as string) ??
-    normalizeValue(raw.text as string) ??
-    normalizeValue(raw.description as string) ??
-    normalizeValue(raw.effect as string);
-  const id =
-    normalizeValue(raw.id as string) ??
-    normalizeValue(raw.slug as string) ??
-    normalizeValue(raw.uuid as string) ??
-    `${name}-${setNumber ?? fallbackId}`;
+  const setNumber = pickText(raw, ["setNumber", "set_number", "cardNumber", "number", "set"]);
+  const info = pickText(raw, ["info", "text", "description", "effect"]);
+  const id = pickText(raw, ["id", "slug", "uuid"]) ?? `${name}-${setNumber ?? fallbackId}`;
+  const variant = pickText(raw, ["variant", "variantName", "variant_name", "variant.name", "finish", "printing", "treatment"]);
+  const subtypes = pickList(raw, ["subtype", "subType", "sub_type", "subtypes", "subTypes"]);
 
   return {
     id,
     name,
     imageUrl,
-    setNumber: setNumber || undefined,
-    info: info || undefined,
+    setNumber,
+    info,
+    elements: pickList(raw, ["elements", "element", "elementTypes", "element_types", "element.name"]),
+    cardType: pickText(raw, ["cardType", "card_type", "type", "type.name", "category"]),
+    subtype: subtypes?.join(", "),
+    rarity: pickText(raw, ["rarity", "rarityName", "rarity_name", "rarity.name"]),
+    setCode: pickText(raw, ["setCode", "set_code", "set.code", "set.abbreviation", "expansion.code"]),
+    setName: pickText(raw, ["setName", "set_name", "set.name", "set.title", "expansion", "expansion.name"]),
+    collectorNumber: pickText(raw, ["collectorNumber", "collector_number", "collectorNo", "set.number"]),
+    cost: pickNumber(raw, ["cost", "spiritCost", "spirit_cost", "spirits", "cost.total"]),
+    attack: pickNumber(raw, ["attack", "atk", "power", "stats.attack"]),
+    defense: pickNumber(raw, ["defense", "defence", "def", "stats.defense"]),
+    artist: pickText(raw, ["artist", "artistName", "artist_name", "artist.name", "illustrator"]),
+    variant,
+    isFoil: pickFlag(raw, ["isFoil", "is_foil", "foil", "holo"]) ?? (variant && /foil|holo/i.test(variant) ? true : undefined),
   };
 };
 
 const collectCardsFromArray = (items: unknown[]) =>
   items
-    .map((item, index) => (item && typeof item === "object" ? buildCard(item as Record<string, unknown>, `${index}`) : null))
+    .map((item, index) => (item && typeof item === "object" ? buildCard(item as RawCard, `${index}`) : null))
     .filter((card): card is ElestralsCard => Boolean(card));
 
 const collectCardsFromObject = (payload: unknown) => {
@@ -119,7 +187,7 @@ const deepCollectCards = (payload: unknown) => {
       return;
     }
 
-    const record = value as Record<string, unknown>;
+    const record = value as RawCard;
     const card = buildCard(record, `${results.length}`);
     if (card) {
       results.push(card);
@@ -211,7 +279,7 @@ const fetchCardsFromHtml = async (url: string) => {
 const dedupeCards = (cards: ElestralsCard[]) => {
   const seen = new Set<string>();
   return cards.filter((card) => {
-    const key = `${card.name}-${card.setNumber ?? ""}-${card.imageUrl}`;
+    const key = `${card.name}-${card.setNumber ?? ""}-${card.variant ?? ""}-${card.imageUrl}`;
     if (seen.has(key)) return false;
     seen.add(key);
     return true;
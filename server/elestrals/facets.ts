@@ -0,0 +1,131 @@
+import type { ElestralsCard } from "./cards";
+
+export const FACET_KEYS = ["element", "type", "rarity", "set", "variant", "cost"] as const;
+
+export type FacetKey = (typeof FACET_KEYS)[number];
+
+export interface FacetCount {
+  value: string;
+  /** Display name when it differs from value (set name for a set code). */
+  label?: string;
+  count: number;
+}
+
+export interface CardFilters {
+  element: string[];
+  type: string[];
+  rarity: string[];
+  set: string[];
+  variant: string[];
+  costMin?: number;
+  costMax?: number;
+}
+
+/** Cards without a variant are grouped under this value in the variant facet. */
+export const STANDARD_VARIANT = "Standard";
+
+const normalizeFacetValue = (value: string) => value.trim().toLowerCase();
+
+// Each filter accepts repeated parameters or a comma-separated list
+// (`element=fire&element=water` or `element=fire,water`).
+const readList = (params: URLSearchParams, names: string[]) =>
+  names
+    .flatMap((name) => params.getAll(name))
+    .flatMap((value) => value.split(","))
+    .map(normalizeFacetValue)
+    .filter(Boolean);
+
+const readNumber = (params: URLSearchParams, names: string[]) => {
+  for (const name of names) {
+    const raw = params.get(name);
+    if (raw === null || raw.trim() === "") continue;
+    const value = Number(raw);
+    if (Number.isFinite(value)) return value;
+  }
+  return undefined;
+};
+
+export const parseCardFilters = (params: URLSearchParams): CardFilters => ({
+  element: readList(params, ["element", "elements"]),
+  type: readList(params, ["type", "cardType"]),
+  rarity: readList(params, ["rarity"]),
+  set: readList(params, ["set", "setCode"]),
+  variant: readList(params, ["variant"]),
+  costMin: readNumber(params, ["costMin", "cost_min", "minCost"]),
+  costMax: readNumber(params, ["costMax", "cost_max", "maxCost"]),
+});
+
+/** The values a card contributes to each facet, with their display labels. */
+const readFacetValues = (card: ElestralsCard, key: FacetKey): FacetCount[] => {
+  switch (key) {
+    case "element":
+      return (card.elements ?? []).map((value) => ({ value, count: 0 }));
+    case "type":
+      return card.cardType ? [{ value: card.cardType, count: 0 }] : [];
+    case "rarity":
+      return card.rarity ? [{ value: card.rarity, count: 0 }] : [];
+    case "set": {
+      const value = card.setCode ?? card.setName;
+      if (!value) return [];
+      return [{ value, label: card.setName && card.setName !== value ? card.setName : undefined, count: 0 }];
+    }
+    case "variant":
+      return [{ value: card.variant ?? STANDARD_VARIANT, count: 0 }];
+    case "cost":
+      return card.cost !== undefined ? [{ value: String(card.cost), count: 0 }] : [];
+  }
+};
+
+const matchesFacet = (card: ElestralsCard, key: FacetKey, filters: CardFilters) => {
+  if (key === "cost") {
+    if (filters.costMin === undefined && filters.costMax === undefined) return true;
+    if (card.cost === undefined) return false;
+    return (
+      (filters.costMin === undefined || card.cost >= filters.costMin) &&
+      (filters.costMax === undefined || card.cost <= filters.costMax)
+    );
+  }
+  const wanted = filters[key];
+  if (!wanted.length) return true;
+  // A set filter matches the set code or the set name.
+  const values =
+    key === "set"
+      ? [card.setCode, card.setName].filter((value): value is string => Boolean(value))
+      : readFacetValues(card, key).map((facet) => facet.value);
+  return values.some((value) => wanted.includes(normalizeFacetValue(value)));
+};
+
+/**
+ * Values within one filter are alternatives (fire OR water); different
+ * filters must all match. `ignore` skips one filter, for facet counts.
+ */
+export const matchesCardFilters = (card: ElestralsCard, filters: CardFilters, ignore?: FacetKey) =>
+  FACET_KEYS.every((key) => key === ignore || matchesFacet(card, key, filters));
+
+/**
+ * Counts per facet value. Each facet is counted with every other filter
+ * applied but not its own, so the numbers show what picking another value
+ * (or widening the cost range) would return.
+ */
+export const buildFacets = (cards: ElestralsCard[], filters: CardFilters) => {
+  const facets = {} as Record<FacetKey, FacetCount[]>;
+  for (const key of FACET_KEYS) {
+    const counts = new Map<string, FacetCount>();
+    for (const card of cards) {
+      if (!matchesCardFilters(card, filters, key)) continue;
+      for (const facet of readFacetValues(card, key)) {
+        const id = normalizeFacetValue(facet.value);
+        const existing = counts.get(id);
+        if (existing) {
+          existing.count += 1;
+        } else {
+          counts.set(id, { ...facet, count: 1 });
+        }
+      }
+    }
+    facets[key] = [...counts.values()].sort((a, b) =>
+      key === "cost" ? Number(a.value) - Number(b.value) : b.count - a.count || a.value.localeCompare(b.value),
+    );
+  }
+  return facets;
+};
@@ -19,39 +19,89 @@ const CARD_SOURCES = {
 
 const normalizeValue = (value) => (value === null || value === undefined ? undefined : String(value).trim());
 
+// Keep the alias lists in sync with server/elestrals/cards.ts.
+const readAlias = (raw, alias) =>
+  alias.split(".").reduce((value, key) => (value && typeof value === "object" ? value[key] : undefined), raw);
+
+const pickText = (raw, aliases) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    if (typeof value !== "string" && typeof value !== "number") continue;
+    const text = normalizeValue(value);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+const pickNumber = (raw, aliases) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    const number =
+      typeof value === "number"
+        ? value
+        : typeof value === "string"
+          ? Number.parseFloat(value)
+          : Array.isArray(value) && value.length
+            ? value.length
+            : Number.NaN;
+    if (Number.isFinite(number)) return number;
+  }
+  return undefined;
+};
+
+const pickList = (raw, aliases) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    const items = (Array.isArray(value) ? value : [value])
+      .map((item) => (item && typeof item === "object" ? item.name : item))
+      .flatMap((item) => (typeof item === "string" ? item.split(/[/,&]/) : []))
+      .map((item) => item.trim())
+      .filter(Boolean);
+    if (items.length) return [...new Set(items)];
+  }
+  return undefined;
+};
+
+const pickFlag = (raw, aliases) => {
+  for (const alias of aliases) {
+    const value = readAlias(raw, alias);
+    if (typeof value === "boolean") return value;
+    if (value === 1 || value === "true") return true;
+    if (value === 0 || value === "false") return false;
+  }
+  return undefined;
+};
+
 const buildCard = (raw, fallbackId) => {
-  const name = normalizeValue(raw.name) ?? normalizeValue(raw.cardName) ?? normalizeValue(raw.title);
-  const imageUrl =
-    normalizeValue(raw.imageUrl) ??
-    normalizeValue(raw.image_url) ??
-    normalizeValue(raw.image) ??
-    normalizeValue(raw.img) ??
-    normalizeValue(raw.cardImage);
+  const name = pickText(raw, ["name", "cardName", "title"]);
+  const imageUrl = pickText(raw, ["imageUrl", "image_url", "image", "img", "cardImage", "image.url"]);
   if (!name || !imageUrl) return null;
 
-  const setNumber =
-    normalizeValue(raw.setNumber) ??
-    normalizeValue(raw.set_number) ??
-    normalizeValue(raw.cardNumber) ??
-    normalizeValue(raw.number) ??
-    normalizeValue(raw.set);
-  const info =
-    normalizeValue(raw.info) ??
-    normalizeValue(raw.text) ??
-    normalizeValue(raw.description) ??
-    normalizeValue(raw.effect);
-  const id =
-    normalizeValue(raw.id) ??
-    normalizeValue(raw.slug) ??
-    normalizeValue(raw.uuid) ??
-    `${name}-${setNumber ?? fallbackId}`;
+  const setNumber = pickText(raw, ["setNumber", "set_number", "cardNumber", "number", "set"]);
+  const info = pickText(raw, ["info", "text", "description", "effect"]);
+  const id = pickText(raw, ["id", "slug", "uuid"]) ?? `${name}-${setNumber ?? fallbackId}`;
+  const variant = pickText(raw, ["variant", "variantName", "variant_name", "variant.name", "finish", "printing", "treatment"]);
+  const subtypes = pickList(raw, ["subtype", "subType", "sub_type", "subtypes", "subTypes"]);
 
   return {
     id,
     name,
     imageUrl,
-    setNumber: setNumber || undefined,
-    info: info || undefined,
+    setNumber,
+    info,
+    elements: pickList(raw, ["elements", "element", "elementTypes", "element_types", "element.name"]),
+    cardType: pickText(raw, ["cardType", "card_type", "type", "type.name", "category"]),
+    subtype: subtypes?.join(", "),
+    rarity: pickText(raw, ["rarity", "rarityName", "rarity_name", "rarity.name"]),
+    setCode: pickText(raw, ["setCode", "set_code", "set.code", "set.abbreviation", "expansion.code"]),
+    setName: pickText(raw, ["setName", "set_name", "set.name", "set.title", "expansion", "expansion.name"]),
+    collectorNumber: pickText(raw, ["collectorNumber", "collector_number", "collectorNo", "set.number"]),
+    cost: pickNumber(raw, ["cost", "spiritCost", "spirit_cost", "spirits", "cost.total"]),
+    attack: pickNumber(raw, ["attack", "atk", "power", "stats.attack"]),
+    defense: pickNumber(raw, ["defense", "defence", "def", "stats.defense"]),
+    artist: pickText(raw, ["artist", "artistName", "artist_name", "artist.name", "illustrator"]),
+    variant,
+    isFoil: pickFlag(raw, ["isFoil", "is_foil", "foil", "holo"]) ?? (variant && /foil|holo/i.test(variant) ? true : undefined),
   };
 };
 
@@ -185,7 +235,7 @@ const fetchCardsFromHtml = async (url) => {
 const dedupeCards = (cards) => {
   const seen = new Set();
   return cards.filter((card) => {
-    const key = `${card.name}-${card.setNumber ?? ""}-${card.imageUrl}`;
+    const key = `${card.name}-${card.setNumber ?? ""}-${card.variant ?? ""}-${card.imageUrl}`;
     if (seen.has(key)) return false;
     seen.add(key);
     return true;
@@ -0,0 +1,143 @@
+import type { ElestralsCard } from "./cards";
+
+interface IndexEntry {
+  card: ElestralsCard;
+  folded: string;
+  tokens: string[];
+}
+
+export interface SearchIndex {
+  entries: IndexEntry[];
+}
+
+export interface ScoredCard {
+  card: ElestralsCard;
+  /** 1 for an exact name match, lower for weaker matches; never 0. */
+  score: number;
+}
+
+// Letters NFKD leaves whole because they aren't accented forms of one letter.
+const LIGATURES: Record<string, string> = { æ: "ae", œ: "oe", ß: "ss", ø: "o", đ: "d", ł: "l", þ: "th" };
+
+// Lower-case, strip accents and punctuation, so "Ignöth's" and "ignoths"
+// compare equal.
+export const foldText = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[æœßøđłþ]/g, (letter) => LIGATURES[letter])
+    .replace(/['\u2019]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const tokenize = (folded: string) => (folded ? folded.split(" ") : []);
+
+export const buildSearchIndex = (cards: ElestralsCard[]): SearchIndex => ({
+  entries: cards.map((card) => {
+    const folded = foldText(card.name);
+    return { card, folded, tokens: tokenize(folded) };
+  }),
+});
+
+// Snapshots only change on ingest or refresh, so the index is rebuilt when the
+// dataset's updatedAt moves rather than on every request.
+const indexCache = new Map<string, { updatedAt: number; index: SearchIndex }>();
+
+export const getSearchIndex = (cacheKey: string, dataset: { updatedAt: number; cards: ElestralsCard[] }) => {
+  const cached = indexCache.get(cacheKey);
+  if (cached && cached.updatedAt === dataset.updatedAt && cached.index.entries.length === dataset.cards.length) {
+    return cached.index;
+  }
+  const index = buildSearchIndex(dataset.cards);
+  indexCache.set(cacheKey, { updatedAt: dataset.updatedAt, index });
+  return index;
+};
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps, the
+ * usual fast-typing slip). Gives up and returns max + 1 once the distance is
+ * known to exceed max.
+ */
+export const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short tokens must match exactly; "fire" vs "fir" is too loose to call a typo.
+const allowedTypos = (token: string) => (token.length <= 3 ? 0 : token.length <= 6 ? 1 : 2);
+
+/** Typos between a query token and its closest name token (or a name token's prefix, while typing). */
+const tokenDistance = (queryToken: string, nameTokens: string[]) => {
+  const max = allowedTypos(queryToken);
+  let best = max + 1;
+  for (const nameToken of nameTokens) {
+    best = Math.min(
+      best,
+      editDistance(queryToken, nameToken, max),
+      editDistance(queryToken, nameToken.slice(0, queryToken.length), max),
+    );
+    if (best === 0) break;
+  }
+  return best <= max ? best : null;
+};
+
+// Score bands: exact > whole-name prefix > all words in any order > word
+// prefixes > substring > typo matches. Within a band, closer-length names
+// rank higher.
+const scoreEntry = (entry: IndexEntry, query: string, queryTokens: string[]) => {
+  const { folded, tokens } = entry;
+  const lengthBonus = Math.min(query.length / Math.max(folded.length, 1), 1) * 0.05;
+  if (folded === query) return 1;
+  if (folded.startsWith(query)) return 0.9 + lengthBonus;
+  if (queryTokens.every((token) => tokens.includes(token))) return 0.8 + lengthBonus;
+  if (queryTokens.every((token) => tokens.some((nameToken) => nameToken.startsWith(token)))) return 0.7 + lengthBonus;
+  if (folded.includes(query)) return 0.6 + lengthBonus;
+
+  let typos = 0;
+  for (const token of queryTokens) {
+    const distance = tokenDistance(token, tokens);
+    if (distance === null) return 0;
+    typos += distance;
+  }
+  const queryLength = queryTokens.reduce((sum, token) => sum + token.length, 0);
+  return Math.max(0.5 - (typos / Math.max(queryLength, 1)) * 0.5, 0.01) + lengthBonus * 0.1;
+};
+
+/**
+ * Cards whose name matches the query, best first. An empty query returns
+ * every card in snapshot order with a score of 1.
+ */
+export const searchCards = (index: SearchIndex, query: string): ScoredCard[] => {
+  const folded = foldText(query);
+  if (!folded) return index.entries.map(({ card }) => ({ card, score: 1 }));
+  const queryTokens = tokenize(folded);
+  return index.entries
+    .map((entry) => ({ entry, score: scoreEntry(entry, folded, queryTokens) }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.entry.folded.length - b.entry.folded.length ||
+        a.entry.folded.localeCompare(b.entry.folded),
+    )
+    .map(({ entry, score }) => ({ card: entry.card, score: Math.round(score * 1000) / 1000 }));
+};
@@ -0,0 +1,124 @@
+export interface ImageProbe {
+  /** Format detected from the file's own bytes, e.g. "png" or "svg". */
+  format: string;
+  width: number | null;
+  height: number | null;
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number) => buffer.toString("latin1", start, end);
+
+const probePng = (buffer: Buffer): ImageProbe | null =>
+  startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) && buffer.length >= 24
+    ? { format: "png", width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+    : null;
+
+const probeGif = (buffer: Buffer): ImageProbe | null =>
+  ascii(buffer, 0, 4) === "GIF8" && buffer.length >= 10
+    ? { format: "gif", width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) }
+    : null;
+
+const probeBmp = (buffer: Buffer): ImageProbe | null =>
+  ascii(buffer, 0, 2) === "BM" && buffer.length >= 26
+    ? { format: "bmp", width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) }
+    : null;
+
+const probeWebp = (buffer: Buffer): ImageProbe | null => {
+  if (ascii(buffer, 0, 4) !== "RIFF" || ascii(buffer, 8, 12) !== "WEBP" || buffer.length < 30) return null;
+  const chunk = ascii(buffer, 12, 16);
+  if (chunk === "VP8 ") {
+    return { format: "webp", width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L") {
+    const [b0, b1, b2, b3] = [buffer[21], buffer[22], buffer[23], buffer[24]];
+    return {
+      format: "webp",
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+    };
+  }
+  if (chunk === "VP8X") {
+    return { format: "webp", width: 1 + buffer.readUIntLE(24, 3), height: 1 + buffer.readUIntLE(27, 3) };
+  }
+  return { format: "webp", width: null, height: null };
+};
+
+// Start-of-frame markers carry the dimensions; C4, C8 and CC share the range
+// but are other segment types.
+const isStartOfFrame = (marker: number) => marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+
+const probeJpeg = (buffer: Buffer): ImageProbe | null => {
+  if (!startsWith(buffer, [0xff, 0xd8])) return null;
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      offset += 1;
+      continue;
+    }
+    const marker = buffer[offset + 1];
+    if (isStartOfFrame(marker)) {
+      return { format: "jpeg", width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    // Markers without a length field.
+    if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += marker === 0xff ? 1 : 2;
+      continue;
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return { format: "jpeg", width: null, height: null };
+};
+
+/** AVIF and HEIF store the size in an "ispe" (image spatial extents) box. */
+const probeHeif = (buffer: Buffer): ImageProbe | null => {
+  if (ascii(buffer, 4, 8) !== "ftyp") return null;
+  const brand = ascii(buffer, 8, 12);
+  const format = brand === "avif" || brand === "avis" ? "avif" : ["heic", "heix", "mif1"].includes(brand) ? "heif" : null;
+  if (!format) return null;
+  const box = buffer.indexOf("ispe", 12, "latin1");
+  return box > 0 && box + 16 <= buffer.length
+    ? { format, width: buffer.readUInt32BE(box + 8), height: buffer.readUInt32BE(box + 12) }
+    : { format, width: null, height: null };
+};
+
+const readSvgLength = (tag: string, attribute: string) => {
+  const match = tag.match(new RegExp(`\\s${attribute}\\s*=\\s*["']\\s*([\\d.]+)(px)?\\s*["']`, "i"));
+  return match ? Math.round(Number(match[1])) : null;
+};
+
+// Whatever may precede the root element of an XML document: whitespace, the
+// XML declaration, comments, processing instructions and a doctype (with an
+// optional internal subset).
+const XML_PROLOG = /^(?:\s+|<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>)*/i;
+
+// Only a document whose root element is <svg> counts. Web pages often inline
+// an SVG icon near the top, so finding "<svg" somewhere is not enough.
+const probeSvg = (buffer: Buffer): ImageProbe | null => {
+  const text = buffer.toString("utf8", 0, Math.min(buffer.length, 4096)).replace(/^\uFEFF/, "");
+  const root = text.slice(text.match(XML_PROLOG)?.[0].length ?? 0);
+  const tag = root.match(/^<svg\b[^>]*>/i)?.[0];
+  if (!tag) return null;
+  const viewBox = tag.match(/\sviewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*["']/i);
+  return {
+    format: "svg",
+    width: readSvgLength(tag, "width") ?? (viewBox ? Math.round(Number(viewBox[1])) : null),
+    height: readSvgLength(tag, "height") ?? (viewBox ? Math.round(Number(viewBox[2])) : null),
+  };
+};
+
+/**
+ * Identifies an image from its bytes rather than its Content-Type header,
+ * which many hosts get wrong (application/octet-stream, or an image type
+ * that doesn't match the file), and reads its dimensions from the header where
+ * the format allows. Returns null when the bytes are not a recognised image.
+ */
+export const probeImage = (buffer: Buffer): ImageProbe | null =>
+  probePng(buffer) ??
+  probeGif(buffer) ??
+  probeJpeg(buffer) ??
+  probeWebp(buffer) ??
+  probeHeif(buffer) ??
+  probeBmp(buffer) ??
+  probeSvg(buffer);
@@ -0,0 +1,56 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Must match LIBRARY_TOKEN_HEADER in src/lib/media-library.ts; the
+// media_library policies read it from the request headers.
+export const LIBRARY_TOKEN_HEADER = "x-media-library-token";
+
+export interface LibraryDeleteResult {
+  status: number;
+  body: { ok: true; removeError: string | null } | { error: string };
+}
+
+const readEnv = (...keys: string[]) => {
+  for (const key of keys) {
+    const value = process.env[key]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+const fail = (status: number, error: string): LibraryDeleteResult => ({ status, body: { error } });
+
+/**
+ * Deletes a library item and, when nothing else uses it, its file. The row is
+ * deleted with the caller's library token, so delete_media_library_item
+ * checks ownership and whether another library or a session still shows the
+ * file. Only then is the object removed, with the service role: the bucket
+ * itself allows no anonymous deletes.
+ */
+export async function deleteLibraryItem(libraryToken: string, itemId: string): Promise<LibraryDeleteResult> {
+  const supabaseUrl = readEnv("SUPABASE_URL", "VITE_SUPABASE_URL");
+  const anonKey = readEnv("SUPABASE_ANON_KEY", "VITE_SUPABASE_ANON_KEY");
+  const serviceRoleKey = readEnv("SUPABASE_SERVICE_ROLE_KEY");
+  // Checked before deleting anything, so a misconfigured route can't leave
+  // files nobody owns.
+  if (!supabaseUrl || !anonKey || !serviceRoleKey) {
+    return fail(503, "Supabase environment variables are missing.");
+  }
+
+  const owner = createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { [LIBRARY_TOKEN_HEADER]: libraryToken } },
+  });
+  const { data, error } = await owner.rpc("delete_media_library_item", { item_id: itemId });
+  if (error) return fail(502, error.message);
+  const [deleted] = (data ?? []) as { storage_path: string; is_shared: boolean }[];
+  if (!deleted) return fail(404, "Library item not found.");
+  if (deleted.is_shared) return { status: 200, body: { ok: true, removeError: null } };
+
+  const { error: removeError } = await createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  })
+    .storage.from("images")
+    .remove([deleted.storage_path]);
+  if (removeError) console.error("Failed to remove library file:", removeError);
+  return { status: 200, body: { ok: true, removeError: removeError?.message ?? null } };
+}
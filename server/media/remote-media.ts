@@ -0,0 +1,323 @@
+import { createHash } from "crypto";
+import { lookup as dnsLookup, type LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { createClient } from "@supabase/supabase-js";
+import { probeImage } from "./image-probe";
+
+export const MAX_REMOTE_MEDIA_BYTES = 25 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+const ALLOWED_PORTS = ["", "80", "443"];
+const SUPPORTED_VIDEO_TYPES = ["video/mp4", "video/webm"];
+const PRIVATE_ADDRESS_CODE = "EPRIVATEADDRESS";
+const USER_AGENT = "ImageBrowserSource/1.0 (+media validation)";
+
+export interface RemoteMediaInfo {
+  url: string;
+  /** Where the last redirect ended up. */
+  finalUrl: string;
+  mediaType: "image" | "video";
+  contentType: string;
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  bytes: number;
+  /** Public storage URL when the file was cached. */
+  cachedUrl: string | null;
+  storagePath: string | null;
+}
+
+export interface RemoteMediaResult {
+  status: number;
+  body: { media: RemoteMediaInfo } | { error: string };
+}
+
+interface RawResponse {
+  status: number;
+  location?: string;
+  contentType: string;
+  body: Buffer;
+}
+
+class RemoteMediaError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Loopback, private, link-local (cloud metadata endpoints live at
+// 169.254.169.254), carrier-grade NAT, documentation, multicast and reserved
+// ranges. BlockList matches IPv4-mapped IPv6 addresses against the IPv4
+// rules; NAT64 addresses are blocked outright because they can wrap any of them.
+const blockedRanges = new BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.0.2.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["198.51.100.0", 24],
+    ["203.0.113.0", 24],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const
+).forEach(([network, prefix]) => blockedRanges.addSubnet(network, prefix, "ipv4"));
+(
+  [
+    ["::", 127],
+    ["64:ff9b::", 96],
+    ["2001:db8::", 32],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) => blockedRanges.addSubnet(network, prefix, "ipv6"));
+
+export const isPublicAddress = (address: string) => {
+  const family = isIP(address);
+  return family !== 0 && !blockedRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+const privateAddressError = (hostname: string) =>
+  Object.assign(new Error(`${hostname} resolves to a private address.`), { code: PRIVATE_ADDRESS_CODE });
+
+/**
+ * DNS lookup for outgoing requests that refuses private addresses. Checking
+ * inside the socket's own lookup means the address that was checked is the
+ * one connected to, so a host can't pass the check and then re-resolve to an
+ * internal address (DNS rebinding).
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (!addresses.length || addresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(privateAddressError(hostname), "");
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const readEnv = (...keys: string[]) => {
+  for (const key of keys) {
+    const value = process.env[key]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+const assertFetchableUrl = (url: URL) => {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new RemoteMediaError(400, "Only http and https links are supported.");
+  }
+  if (url.username || url.password) {
+    throw new RemoteMediaError(400, "Links with embedded credentials are not supported.");
+  }
+  if (!ALLOWED_PORTS.includes(url.port)) {
+    throw new RemoteMediaError(400, "Links on non-standard ports are not supported.");
+  }
+  // Literal IPs skip the lookup, so they are checked here.
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new RemoteMediaError(400, "Links to private or internal addresses are not allowed.");
+  }
+};
+
+const requestOnce = (url: URL) =>
+  new Promise<RawResponse>((resolve, reject) => {
+    const transport = url.protocol === "https:" ? https : http;
+    const request = transport.get(
+      url,
+      {
+        lookup: publicOnlyLookup,
+        timeout: FETCH_TIMEOUT_MS,
+        headers: { Accept: "image/*,video/mp4,video/webm;q=0.9,*/*;q=0.1", "User-Agent": USER_AGENT },
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        const contentType = response.headers["content-type"] ?? "";
+        if (status < 200 || status >= 300) {
+          response.resume();
+          resolve({ status, location: response.headers.location, contentType, body: Buffer.alloc(0) });
+          return;
+        }
+        if (Number(response.headers["content-length"]) > MAX_REMOTE_MEDIA_BYTES) {
+          request.destroy(new RemoteMediaError(413, "The file is larger than 25 MB."));
+          return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        response.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_REMOTE_MEDIA_BYTES) {
+            request.destroy(new RemoteMediaError(413, "The file is larger than 25 MB."));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on("end", () => resolve({ status, contentType, body: Buffer.concat(chunks) }));
+        response.on("error", reject);
+      },
+    );
+    request.on("timeout", () => request.destroy(new RemoteMediaError(504, "The host took too long to respond.")));
+    request.on("error", reject);
+  });
+
+/** Follows redirects by hand so every hop is checked against the address rules. */
+const fetchRemote = async (url: URL) => {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    assertFetchableUrl(current);
+    let response: RawResponse;
+    try {
+      response = await requestOnce(current);
+    } catch (error) {
+      if (error instanceof RemoteMediaError) throw error;
+      if ((error as { code?: string }).code === PRIVATE_ADDRESS_CODE) {
+        throw new RemoteMediaError(400, "Links to private or internal addresses are not allowed.");
+      }
+      throw new RemoteMediaError(502, `Could not reach ${current.hostname}.`);
+    }
+    if (response.status >= 300 && response.status < 400 && response.location) {
+      current = new URL(response.location, current);
+      continue;
+    }
+    return { ...response, finalUrl: current };
+  }
+  throw new RemoteMediaError(502, "The link redirects too many times.");
+};
+
+const describeHttpError = (status: number) =>
+  status === 401 || status === 403
+    ? new RemoteMediaError(422, `The host refused the request (status ${status}). It may block hotlinking.`)
+    : status === 404 || status === 410
+      ? new RemoteMediaError(422, `Nothing was found at that link (status ${status}).`)
+      : new RemoteMediaError(502, `The host answered with status ${status}.`);
+
+const extensionFor = (format: string | null, contentType: string) =>
+  format === "jpeg" ? "jpg" : (format ?? contentType.split("/")[1]?.replace(/[^a-z0-9]/g, "") ?? "bin");
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    // A malformed escape such as "%E0%A4" is still a usable name.
+    return segment;
+  }
+};
+
+/** Same naming as browser uploads: <sha256>/<sanitised name>.<ext>. */
+const buildStoragePath = (body: Buffer, url: URL, extension: string) => {
+  const hash = createHash("sha256").update(body).digest("hex");
+  const base =
+    (decodeSegment(url.pathname.split("/").pop() ?? "").replace(/\.[^.]*$/, "") || "image")
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 64) || "image";
+  return { hash, path: `${hash}/${base}.${extension}` };
+};
+
+/** Copies the file into the public images bucket, reusing an existing copy of the same bytes. */
+const cacheInStorage = async (body: Buffer, contentType: string, url: URL, extension: string) => {
+  const supabaseUrl = readEnv("SUPABASE_URL", "VITE_SUPABASE_URL");
+  const anonKey = readEnv("SUPABASE_ANON_KEY", "VITE_SUPABASE_ANON_KEY");
+  if (!supabaseUrl || !anonKey) {
+    throw new RemoteMediaError(503, "Supabase environment variables are missing.");
+  }
+  const bucket = createClient(supabaseUrl, anonKey, { auth: { persistSession: false } }).storage.from("images");
+  const { hash, path } = buildStoragePath(body, url, extension);
+  const { data: existing } = await bucket.list(hash, { limit: 1 });
+  const storagePath = existing?.length ? `${hash}/${existing[0].name}` : path;
+  if (!existing?.length) {
+    const { error } = await bucket.upload(storagePath, body, { contentType, upsert: false });
+    if (error && !/already exists|duplicate/i.test(error.message)) {
+      console.error("Failed to cache remote media:", error);
+      throw new RemoteMediaError(502, "The file is valid but could not be copied to storage.");
+    }
+  }
+  return { storagePath, cachedUrl: bucket.getPublicUrl(storagePath).data.publicUrl };
+};
+
+/**
+ * Fetches a link and checks that it is an image (or a supported video),
+ * reporting its type and dimensions. With cache set, the file is also copied
+ * to storage so the overlay no longer depends on the original host; callers
+ * must have checked the requester's credentials first.
+ */
+export async function inspectRemoteMedia(rawUrl: string, options: { cache?: boolean } = {}): Promise<RemoteMediaResult> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return { status: 400, body: { error: "That is not a valid URL." } };
+  }
+
+  try {
+    const response = await fetchRemote(url);
+    if (response.status < 200 || response.status >= 300) {
+      throw describeHttpError(response.status);
+    }
+    const contentType = response.contentType.split(";")[0].trim().toLowerCase();
+    // Checked before probing: a page can still look like an image to the
+    // probe, and must never reach the stream or the bucket.
+    if (contentType === "text/html" || contentType === "application/xhtml+xml") {
+      throw new RemoteMediaError(
+        415,
+        "That link is a web page, not an image. Open it and copy the image address instead.",
+      );
+    }
+    const probe = SUPPORTED_VIDEO_TYPES.includes(contentType) ? null : probeImage(response.body);
+    if (!probe && !SUPPORTED_VIDEO_TYPES.includes(contentType)) {
+      throw new RemoteMediaError(415, `That link isn't an image (the host says ${contentType || "nothing"}).`);
+    }
+    const resolvedType = probe ? (probe.format === "svg" ? "image/svg+xml" : `image/${probe.format}`) : contentType;
+    const cached = options.cache
+      ? await cacheInStorage(response.body, resolvedType, response.finalUrl, extensionFor(probe?.format ?? null, resolvedType))
+      : { storagePath: null, cachedUrl: null };
+
+    return {
+      status: 200,
+      body: {
+        media: {
+          url: url.href,
+          finalUrl: response.finalUrl.href,
+          mediaType: probe ? "image" : "video",
+          contentType: resolvedType,
+          format: probe?.format ?? null,
+          width: probe?.width ?? null,
+          height: probe?.height ?? null,
+          bytes: response.body.length,
+          ...cached,
+        },
+      },
+    };
+  } catch (error) {
+    if (error instanceof RemoteMediaError) {
+      return { status: error.status, body: { error: error.message } };
+    }
+    console.error("Failed to inspect remote media:", error);
+    return { status: 500, body: { error: "Could not check that link." } };
+  }
+}
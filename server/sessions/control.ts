@@ -0,0 +1,159 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { getUrlExtensionMediaType, parseMediaType, type MediaType } from "../../src/lib/media";
+import { CONTROL_TOKEN_HEADER, parsePlaylist, wrapPlaylistIndex } from "../../src/lib/session-shared";
+
+// The sessions RLS policies read the control token from this request header.
+export { CONTROL_TOKEN_HEADER };
+
+export const CONTROL_ACTIONS = ["state", "reveal", "hide", "toggle", "set-image", "next", "previous"] as const;
+
+export type ControlAction = (typeof CONTROL_ACTIONS)[number];
+
+export interface ControlParams {
+  url?: string;
+  mediaType?: string;
+}
+
+export interface SessionState {
+  id: string;
+  imageUrl: string | null;
+  mediaType: MediaType;
+  isRevealed: boolean;
+  playlistIndex: number;
+  playlistLength: number;
+}
+
+export interface ControlResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+interface SessionRow {
+  id: string;
+  image_url: string | null;
+  media_type: string | null;
+  is_revealed: boolean | null;
+  playlist: unknown;
+  playlist_index: number | null;
+}
+
+const SESSION_COLUMNS = "id, image_url, media_type, is_revealed, playlist, playlist_index";
+
+const readEnv = (...keys: string[]) => {
+  for (const key of keys) {
+    const value = process.env[key]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+export const isControlAction = (value: string): value is ControlAction =>
+  (CONTROL_ACTIONS as readonly string[]).includes(value);
+
+/**
+ * A Supabase client that sends the caller's control token on every request,
+ * so the same RLS policies that guard the controller page guard the API.
+ */
+export const createControlClient = (controlToken: string): SupabaseClient | null => {
+  const url = readEnv("SUPABASE_URL", "VITE_SUPABASE_URL");
+  const anonKey = readEnv("SUPABASE_ANON_KEY", "VITE_SUPABASE_ANON_KEY");
+  if (!url || !anonKey) return null;
+  return createClient(url, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { [CONTROL_TOKEN_HEADER]: controlToken } },
+  });
+};
+
+const toState = (row: SessionRow): SessionState => ({
+  id: row.id,
+  imageUrl: row.image_url,
+  mediaType: parseMediaType(row.media_type),
+  isRevealed: row.is_revealed ?? false,
+  playlistIndex: row.playlist_index ?? 0,
+  playlistLength: parsePlaylist(row.playlist).length,
+});
+
+const fail = (status: number, error: string): ControlResult => ({ status, body: { error } });
+
+const loadRow = async (client: SupabaseClient, sessionId: string) =>
+  client.from("sessions").select(SESSION_COLUMNS).eq("id", sessionId).maybeSingle<SessionRow>();
+
+const applyPatch = async (
+  client: SupabaseClient,
+  sessionId: string,
+  patch: Record<string, unknown>,
+): Promise<ControlResult> => {
+  const { data, error } = await client
+    .from("sessions")
+    .update(patch)
+    .eq("id", sessionId)
+    .select(SESSION_COLUMNS)
+    .maybeSingle<SessionRow>();
+  if (error) return fail(502, error.message);
+  // RLS filters out rows the token doesn't control, so an update that matched
+  // nothing was rejected.
+  if (!data) return fail(401, "Invalid control token.");
+  return { status: 200, body: { ok: true, state: toState(data) } };
+};
+
+/** Runs one controller action against a session and returns the new state. */
+export const runControlAction = async (
+  client: SupabaseClient,
+  sessionId: string,
+  action: ControlAction,
+  params: ControlParams = {},
+): Promise<ControlResult> => {
+  // Reads are public at the database level, so check the token up front to
+  // keep every action behind the same secret.
+  const { data: hasControl, error: controlError } = await client.rpc("has_session_control", {
+    target_session_id: sessionId,
+  });
+  if (controlError) return fail(502, controlError.message);
+
+  const { data: row, error } = await loadRow(client, sessionId);
+  if (error) return fail(502, error.message);
+  if (!row) return fail(404, "Session not found.");
+  if (!hasControl) return fail(401, "Invalid control token.");
+
+  switch (action) {
+    case "state":
+      return { status: 200, body: { ok: true, state: toState(row) } };
+    case "reveal":
+    case "hide":
+    case "toggle": {
+      const isRevealed = action === "toggle" ? !row.is_revealed : action === "reveal";
+      return applyPatch(client, sessionId, { is_revealed: isRevealed });
+    }
+    case "set-image": {
+      const url = params.url?.trim();
+      if (!url) return fail(400, "Missing url.");
+      try {
+        const { protocol } = new URL(url);
+        if (!["http:", "https:"].includes(protocol)) throw new Error(protocol);
+      } catch {
+        return fail(400, "url must be an http(s) URL.");
+      }
+      const mediaType = params.mediaType ? parseMediaType(params.mediaType) : (getUrlExtensionMediaType(url) ?? "image");
+      // Replace the current playlist entry, the same as "Change image" does.
+      const playlist = parsePlaylist(row.playlist);
+      const index = row.playlist_index ?? 0;
+      const nextPlaylist = playlist.length
+        ? playlist.map((entry, entryIndex) => (entryIndex === index ? { url, mediaType } : entry))
+        : [{ url, mediaType }];
+      return applyPatch(client, sessionId, { image_url: url, media_type: mediaType, playlist: nextPlaylist });
+    }
+    case "next":
+    case "previous": {
+      const playlist = parsePlaylist(row.playlist);
+      if (!playlist.length) return fail(409, "The session has no playlist.");
+      const step = action === "next" ? 1 : -1;
+      const index = wrapPlaylistIndex((row.playlist_index ?? 0) + step, playlist.length);
+      const entry = playlist[index];
+      return applyPatch(client, sessionId, {
+        image_url: entry.url,
+        media_type: parseMediaType(entry.mediaType),
+        playlist_index: index,
+      });
+    }
+  }
+};
@@ -8,6 +8,7 @@ import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Source from "./pages/Source";
 import Elestrals from "./pages/Elestrals";
+import Sessions from "./pages/Sessions";
 import { ThemeProvider } from "@/components/theme-provider";
 
 const queryClient = new QueryClient();
@@ -20,6 +21,7 @@ const AppRoutes = () => {
         <Route path="/" element={<Index />} />
         <Route path="/source/:sessionId" element={<Source />} />
         <Route path="/elestrals" element={<Elestrals />} />
+        <Route path="/sessions" element={<Sessions />} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
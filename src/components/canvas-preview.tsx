@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+interface CanvasPreviewProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Renders children on a box of the real canvas size and scales it down to
+ * the available width, so pixel-based layouts look exactly as they will in
+ * OBS.
+ */
+export function CanvasPreview({ canvasWidth, canvasHeight, className, children }: CanvasPreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const updateScale = () => setScale(container.clientWidth / canvasWidth);
+    const observer = new ResizeObserver(updateScale);
+    observer.observe(container);
+    updateScale();
+    return () => observer.disconnect();
+  }, [canvasWidth]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("relative w-full overflow-hidden", className)}
+      style={{ aspectRatio: `${canvasWidth} / ${canvasHeight}` }}
+    >
+      <div
+        className="absolute left-0 top-0 isolate origin-top-left"
+        style={{ width: canvasWidth, height: canvasHeight, transform: `scale(${scale})` }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { motion } from "framer-motion";
+import { getCaptionStyles, hasCaptionText, type CaptionSettings } from "@/lib/caption";
+import { getTransitionTiming, getTransitionVariants, type TransitionSettings } from "@/lib/transitions";
+
+// Captions always sit above every image layer.
+const CAPTION_Z_INDEX = 1000;
+
+interface CaptionOverlayProps {
+  caption: CaptionSettings;
+  isRevealed: boolean;
+  transition: TransitionSettings;
+}
+
+export function CaptionOverlay({ caption, isRevealed, transition }: CaptionOverlayProps) {
+  if (!hasCaptionText(caption)) return null;
+
+  const styles = getCaptionStyles(caption);
+
+  return (
+    <div className="absolute inset-0" style={{ zIndex: CAPTION_Z_INDEX }}>
+      <div style={styles.area}>
+        <motion.div
+          style={styles.text}
+          variants={getTransitionVariants(transition)}
+          initial="hidden"
+          animate={isRevealed ? "visible" : "hidden"}
+          transition={getTransitionTiming(transition)}
+        >
+          {caption.title.trim() && <div className="font-bold">{caption.title}</div>}
+          {caption.subtitle.trim() && <div style={{ fontSize: "0.6em" }}>{caption.subtitle}</div>}
+          {caption.body.trim() && (
+            <div className="mt-[0.4em]" style={{ fontSize: "0.4em" }}>
+              {caption.body}
+            </div>
+          )}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
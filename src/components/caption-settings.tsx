@@ -0,0 +1,173 @@
+import { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CAPTION_FONTS,
+  CAPTION_PLACEMENTS,
+  parseCaption,
+  type CaptionSettings as CaptionSettingsValue,
+} from "@/lib/caption";
+
+interface CaptionSettingsProps {
+  value: CaptionSettingsValue;
+  onChange: (value: CaptionSettingsValue) => void;
+}
+
+export function CaptionSettings({ value, onChange }: CaptionSettingsProps) {
+  const id = useId();
+
+  const update = (patch: Partial<Record<keyof CaptionSettingsValue, unknown>>) => {
+    const next = parseCaption({ ...value, ...patch });
+    if (JSON.stringify(next) !== JSON.stringify(value)) {
+      onChange(next);
+    }
+  };
+
+  // Text and number fields save on blur so typing doesn't write every keystroke.
+  // They are keyed by the saved value so they reset when it changes elsewhere.
+  const commitProps = (key: keyof CaptionSettingsValue) => ({
+    defaultValue: String(value[key]),
+    onBlur: (e: { target: { value: string } }) => update({ [key]: e.target.value }),
+  });
+
+  return (
+    <div className="space-y-4 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label className="text-base">Caption</Label>
+        <p className="text-sm text-muted-foreground">
+          Optional text shown with the image. It reveals and hides together with the main image.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-title`}>Title</Label>
+          <Input
+            key={value.title}
+            id={`${id}-title`}
+            placeholder="Card name"
+            {...commitProps("title")}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-subtitle`}>Subtitle</Label>
+          <Input
+            key={value.subtitle}
+            id={`${id}-subtitle`}
+            placeholder="Set number"
+            {...commitProps("subtitle")}
+          />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor={`${id}-body`}>Body</Label>
+          <Textarea
+            key={value.body}
+            id={`${id}-body`}
+            rows={3}
+            placeholder="Card text"
+            {...commitProps("body")}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-font`}>Font</Label>
+          <Select value={value.font} onValueChange={(font) => update({ font })}>
+            <SelectTrigger id={`${id}-font`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CAPTION_FONTS).map(([font, { label }]) => (
+                <SelectItem key={font} value={font}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-placement`}>Placement</Label>
+          <Select value={value.placement} onValueChange={(placement) => update({ placement })}>
+            <SelectTrigger id={`${id}-placement`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CAPTION_PLACEMENTS.map((placement) => (
+                <SelectItem key={placement} value={placement}>
+                  {placement}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-size`}>Size (px)</Label>
+          <Input
+            key={value.fontSize}
+            id={`${id}-size`}
+            type="number"
+            min={8}
+            {...commitProps("fontSize")}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-margin`}>Margin (px)</Label>
+          <Input
+            key={value.margin}
+            id={`${id}-margin`}
+            type="number"
+            min={0}
+            {...commitProps("margin")}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-color`}>Text colour</Label>
+          <Input
+            id={`${id}-color`}
+            type="color"
+            className="h-10 p-1"
+            value={value.color}
+            onChange={(e) => update({ color: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-outline-color`}>Outline</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${id}-outline-color`}
+              type="color"
+              className="h-10 w-16 p-1"
+              value={value.outlineColor}
+              onChange={(e) => update({ outlineColor: e.target.value })}
+            />
+            <Input
+              key={value.outlineWidth}
+              type="number"
+              min={0}
+              aria-label="Outline width"
+              placeholder="Width"
+              {...commitProps("outlineWidth")}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-shadow`}>Drop shadow</Label>
+        <Switch
+          id={`${id}-shadow`}
+          checked={value.shadow}
+          onCheckedChange={(shadow) => update({ shadow })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import type { SessionControl } from "@/lib/sessions";
+
+const actions = [
+  { action: "toggle", label: "Toggle reveal" },
+  { action: "reveal", label: "Reveal" },
+  { action: "hide", label: "Hide" },
+  { action: "next", label: "Next item" },
+  { action: "previous", label: "Previous item" },
+  { action: "state", label: "Read state" },
+];
+
+interface ControlApiLinksProps {
+  session: SessionControl;
+}
+
+/**
+ * Ready-made control API URLs for Stream Deck style buttons. They embed the
+ * control token, so anyone holding one can drive the session.
+ */
+export function ControlApiLinks({ session }: ControlApiLinksProps) {
+  const { toast } = useToast();
+
+  const buildUrl = (action: string) => {
+    const params = new URLSearchParams({ session: session.id, action, token: session.controlToken });
+    return `${window.location.origin}/api/sessions/control?${params.toString()}`;
+  };
+
+  const copyUrl = (action: string, label: string) => {
+    navigator.clipboard.writeText(buildUrl(action));
+    toast({
+      title: "Copied to clipboard!",
+      description: `The "${label}" control URL has been copied.`,
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label className="text-base">Control API</Label>
+        <p className="text-sm text-muted-foreground">
+          Point a Stream Deck or Companion button at one of these URLs. They contain this session's secret
+          control token, so keep them private.
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {actions.map(({ action, label }) => (
+          <Button
+            key={action}
+            variant="outline"
+            size="sm"
+            className="border-primary text-primary hover:bg-primary/10"
+            onClick={() => copyUrl(action, label)}
+          >
+            <Copy className="mr-2 h-3 w-3" />
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
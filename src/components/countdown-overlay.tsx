@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { getCaptionStyles, type CaptionSettings } from "@/lib/caption";
+import type { CountdownSettings } from "@/lib/countdown";
+import { formatRemaining } from "@/lib/schedules";
+
+// Above image layers and the caption.
+const COUNTDOWN_Z_INDEX = 1001;
+const TICK_MS = 200;
+
+interface CountdownOverlayProps {
+  countdown: CountdownSettings;
+  caption: CaptionSettings;
+  /** The scheduled reveal, as an ISO timestamp from the session row. */
+  revealAt: string | null;
+  /** Milliseconds to add to the local clock to match the server's. */
+  clockOffset?: number;
+}
+
+export function CountdownOverlay({ countdown, caption, revealAt, clockOffset = 0 }: CountdownOverlayProps) {
+  const target = revealAt ? Date.parse(revealAt) : null;
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+  const isActive = countdown.enabled && target !== null;
+
+  useEffect(() => {
+    if (!isActive) return;
+    setNow(Date.now() + clockOffset);
+    const intervalId = setInterval(() => setNow(Date.now() + clockOffset), TICK_MS);
+    return () => clearInterval(intervalId);
+  }, [isActive, clockOffset]);
+
+  const remaining = target === null ? 0 : target - now;
+  const styles = getCaptionStyles({ ...caption, placement: countdown.placement, fontSize: countdown.fontSize });
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ zIndex: COUNTDOWN_Z_INDEX }}>
+      <div style={styles.area}>
+        <AnimatePresence>
+          {isActive && remaining > 0 && (
+            <motion.div
+              style={styles.text}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.3 }}
+            >
+              {countdown.label.trim() && `${countdown.label.trim()} `}
+              <span style={{ fontVariantNumeric: "tabular-nums" }}>{formatRemaining(remaining)}</span>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CAPTION_PLACEMENTS } from "@/lib/caption";
+import { parseCountdown, type CountdownSettings as CountdownSettingsValue } from "@/lib/countdown";
+
+interface CountdownSettingsProps {
+  value: CountdownSettingsValue;
+  onChange: (value: CountdownSettingsValue) => void;
+}
+
+export function CountdownSettings({ value, onChange }: CountdownSettingsProps) {
+  const id = useId();
+
+  const update = (patch: Partial<Record<keyof CountdownSettingsValue, unknown>>) => {
+    const next = parseCountdown({ ...value, ...patch });
+    if (JSON.stringify(next) !== JSON.stringify(value)) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-primary/50 p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label htmlFor={`${id}-enabled`} className="text-base">
+            On-stream countdown
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            Show the time left before a scheduled reveal on the source. It uses the caption&apos;s font and colours.
+          </p>
+        </div>
+        <Switch
+          id={`${id}-enabled`}
+          checked={value.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+      </div>
+
+      {value.enabled && (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-label`}>Text</Label>
+            <Input
+              key={value.label}
+              id={`${id}-label`}
+              defaultValue={value.label}
+              placeholder="Card reveal in"
+              onBlur={(e) => update({ label: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-placement`}>Placement</Label>
+            <Select value={value.placement} onValueChange={(placement) => update({ placement })}>
+              <SelectTrigger id={`${id}-placement`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CAPTION_PLACEMENTS.map((placement) => (
+                  <SelectItem key={placement} value={placement}>
+                    {placement}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-size`}>Size (px)</Label>
+            <Input
+              key={value.fontSize}
+              id={`${id}-size`}
+              type="number"
+              min={8}
+              defaultValue={value.fontSize}
+              onBlur={(e) => update({ fontSize: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  EMPTY_ELESTRALS_FILTERS,
+  LIST_FACETS,
+  hasElestralsFilters,
+  type ElestralsFacetCount,
+  type ElestralsFacets,
+  type ElestralsFilters,
+  type ListFacetKey,
+} from "@/lib/elestrals-filters";
+import { cn } from "@/lib/utils";
+
+const parseCost = (value: string) => {
+  if (!value.trim()) return undefined;
+  const cost = Number(value);
+  return Number.isFinite(cost) ? cost : undefined;
+};
+
+interface ElestralsFiltersBarProps {
+  facets: ElestralsFacets;
+  filters: ElestralsFilters;
+  onChange: (filters: ElestralsFilters) => void;
+}
+
+/** Filter chips with result counts, built from the search response's facets. */
+export function ElestralsFiltersBar({ facets, filters, onChange }: ElestralsFiltersBarProps) {
+  const id = useId();
+  const costs = (facets.cost ?? []).map((facet) => Number(facet.value));
+
+  const toggle = (key: ListFacetKey, value: string) => {
+    const current = filters[key];
+    const isSelected = current.some((item) => item.toLowerCase() === value.toLowerCase());
+    onChange({
+      ...filters,
+      [key]: isSelected ? current.filter((item) => item.toLowerCase() !== value.toLowerCase()) : [...current, value],
+    });
+  };
+
+  // Selected values stay visible even when other filters leave them no
+  // matches, so they can still be switched off.
+  const withSelected = (key: ListFacetKey): ElestralsFacetCount[] => {
+    const options = facets[key] ?? [];
+    const missing = filters[key]
+      .filter((value) => !options.some((option) => option.value.toLowerCase() === value.toLowerCase()))
+      .map((value) => ({ value, count: 0 }));
+    return [...options, ...missing];
+  };
+
+  const groups = LIST_FACETS.map((facet) => ({ ...facet, options: withSelected(facet.key) })).filter(
+    (group) => group.options.length > 0,
+  );
+  if (!groups.length && !costs.length && !hasElestralsFilters(filters)) return null;
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group) => (
+        <div key={group.key} className="flex flex-wrap items-center gap-1.5">
+          <span className="w-16 text-xs font-medium text-muted-foreground">{group.label}</span>
+          {group.options.map((option) => {
+            const isSelected = filters[group.key].some((value) => value.toLowerCase() === option.value.toLowerCase());
+            return (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={isSelected ? "default" : "outline"}
+                className={cn("h-7 rounded-full px-3 text-xs", !isSelected && option.count === 0 && "opacity-50")}
+                aria-pressed={isSelected}
+                onClick={() => toggle(group.key, option.value)}
+              >
+                {option.label ?? option.value}
+                <span className={cn("ml-1.5", isSelected ? "text-primary-foreground/80" : "text-muted-foreground")}>
+                  {option.count}
+                </span>
+              </Button>
+            );
+          })}
+        </div>
+      ))}
+      {(costs.length > 0 || filters.costMin !== undefined || filters.costMax !== undefined) && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Label htmlFor={`${id}-min`} className="w-16 text-xs font-medium text-muted-foreground">
+            Cost
+          </Label>
+          <Input
+            id={`${id}-min`}
+            type="number"
+            min={0}
+            placeholder={costs.length ? `${Math.min(...costs)}` : "Min"}
+            aria-label="Minimum cost"
+            className="h-7 w-20 text-xs"
+            value={filters.costMin ?? ""}
+            onChange={(event) => onChange({ ...filters, costMin: parseCost(event.target.value) })}
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder={costs.length ? `${Math.max(...costs)}` : "Max"}
+            aria-label="Maximum cost"
+            className="h-7 w-20 text-xs"
+            value={filters.costMax ?? ""}
+            onChange={(event) => onChange({ ...filters, costMax: parseCost(event.target.value) })}
+          />
+        </div>
+      )}
+      {hasElestralsFilters(filters) && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange(EMPTY_ELESTRALS_FILTERS)}
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MediaThumbnail } from "@/components/media-thumbnail";
+
+interface FallbackImageSettingsProps {
+  value: string | null;
+  /** Resolves to true once the fallback is saved. */
+  onSave: (url: string | null) => Promise<boolean>;
+}
+
+export function FallbackImageSettings({ value, onSave }: FallbackImageSettingsProps) {
+  const id = useId();
+  const [draft, setDraft] = useState(value ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const next = draft.trim() || null;
+
+  const save = async (url: string | null) => {
+    setIsSaving(true);
+    const saved = await onSave(url);
+    setIsSaving(false);
+    if (saved) setDraft(url ?? "");
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label htmlFor={id} className="text-base">
+          Fallback image
+        </Label>
+        <p className="text-sm text-muted-foreground">
+          Shown while the browser source can't load the current image. Leave empty to show nothing.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {value && (
+          <div className="h-10 w-14 flex-shrink-0 overflow-hidden rounded border bg-muted">
+            <MediaThumbnail src={value} alt="Fallback image" />
+          </div>
+        )}
+        <Input
+          id={id}
+          type="url"
+          placeholder="https://example.com/technical-difficulties.png"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && next !== value && save(next)}
+        />
+        <Button
+          variant="outline"
+          className="border-primary text-primary hover:bg-primary/10"
+          disabled={isSaving || next === value}
+          onClick={() => save(next)}
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState, type KeyboardEvent } from "react";
+import { Keyboard } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import {
+  HOTKEY_ACTIONS,
+  formatHotkey,
+  getEventHotkey,
+  type HotkeyAction,
+  type HotkeyBindings,
+} from "@/lib/hotkeys";
+
+interface HotkeyCheatSheetProps {
+  bindings: HotkeyBindings;
+  /** Actions this page supports; the others are left out of the list. */
+  actions: HotkeyAction[];
+  onBind: (action: HotkeyAction, hotkey: string) => void;
+  onReset: () => void;
+}
+
+export function HotkeyCheatSheet({ bindings, actions, onBind, onReset }: HotkeyCheatSheetProps) {
+  const [recording, setRecording] = useState<HotkeyAction | null>(null);
+
+  const handleRecordKeyDown = (action: HotkeyAction, event: KeyboardEvent<HTMLButtonElement>) => {
+    if (recording !== action || event.key === "Tab") return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === "Escape") {
+      setRecording(null);
+      return;
+    }
+    const hotkey = getEventHotkey(event.nativeEvent);
+    if (!hotkey) return;
+    onBind(action, hotkey);
+    setRecording(null);
+  };
+
+  return (
+    <Popover onOpenChange={() => setRecording(null)}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon">
+          <Keyboard className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Keyboard shortcuts</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-0.5">
+          <p className="font-medium">Keyboard shortcuts</p>
+          <p className="text-xs text-muted-foreground">
+            Click a key to rebind it. Shortcuts are off while typing in a field.
+          </p>
+        </div>
+        <ul className="space-y-2">
+          {actions.map((action) => (
+            <li key={action} className="flex items-center justify-between gap-3 text-sm">
+              <span>{HOTKEY_ACTIONS[action]}</span>
+              <button
+                type="button"
+                className={cn(
+                  "min-w-16 rounded border px-2 py-0.5 font-mono text-xs transition",
+                  recording === action
+                    ? "border-primary bg-primary/10 text-primary"
+                    : "border-border bg-muted hover:border-primary/60",
+                )}
+                onClick={() => setRecording(recording === action ? null : action)}
+                onKeyDown={(event) => handleRecordKeyDown(action, event)}
+                onBlur={() => recording === action && setRecording(null)}
+              >
+                {recording === action ? "Press a key…" : formatHotkey(bindings[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <Button variant="link" size="sm" className="h-auto px-0 text-primary" onClick={onReset}>
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,180 @@
+import { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  LAYOUT_ANCHORS,
+  LAYOUT_FITS,
+  parseLayout,
+  type LayoutFit,
+  type LayoutSettings as LayoutSettingsValue,
+} from "@/lib/layout";
+
+const fitLabels: Record<LayoutFit, string> = {
+  "scale-down": "Fit (don't enlarge)",
+  contain: "Contain",
+  cover: "Cover",
+  fill: "Fill (stretch)",
+  native: "Native size",
+};
+
+const gridAnchors = LAYOUT_ANCHORS.filter((anchor) => anchor !== "custom");
+
+interface LayoutSettingsProps {
+  value: LayoutSettingsValue;
+  onChange: (value: LayoutSettingsValue) => void;
+  /** Layers share the main image's canvas, so they hide the canvas size fields. */
+  showCanvasSize?: boolean;
+}
+
+interface PixelFieldProps {
+  id: string;
+  label: string;
+  value: number | null;
+  placeholder?: string;
+  onCommit: (value: string) => void;
+}
+
+// Saves on blur or Enter so typing a multi-digit number doesn't write every keystroke.
+function PixelField({ id, label, value, placeholder, onCommit }: PixelFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        key={value ?? "empty"}
+        id={id}
+        type="number"
+        min={0}
+        placeholder={placeholder}
+        defaultValue={value ?? ""}
+        onBlur={(e) => onCommit(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && onCommit(e.currentTarget.value)}
+      />
+    </div>
+  );
+}
+
+export function LayoutSettings({ value, onChange, showCanvasSize = true }: LayoutSettingsProps) {
+  const id = useId();
+  const update = (patch: Partial<Record<keyof LayoutSettingsValue, unknown>>) => {
+    const next = parseLayout({ ...value, ...patch });
+    if (JSON.stringify(next) !== JSON.stringify(value)) {
+      onChange(next);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label className="text-base">Layout</Label>
+        <p className="text-sm text-muted-foreground">
+          Position and size the image on the canvas. Values are in canvas pixels.
+        </p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-[auto_1fr]">
+        <div className="space-y-2">
+          <Label>Anchor</Label>
+          <div className="grid w-28 grid-cols-3 gap-1">
+            {gridAnchors.map((anchor) => (
+              <button
+                type="button"
+                key={anchor}
+                title={anchor}
+                className={cn(
+                  "h-8 rounded-sm border transition",
+                  value.anchor === anchor
+                    ? "border-primary bg-primary"
+                    : "border-border bg-muted hover:border-primary/60",
+                )}
+                onClick={() => update({ anchor })}
+              >
+                <span className="sr-only">Anchor {anchor}</span>
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            className={cn(
+              "w-28 rounded-sm border px-2 py-1 text-xs transition",
+              value.anchor === "custom"
+                ? "border-primary bg-primary text-primary-foreground"
+                : "border-border hover:border-primary/60",
+            )}
+            onClick={() => update({ anchor: "custom" })}
+          >
+            Custom x/y
+          </button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor={`${id}-fit`}>Fit</Label>
+            <Select value={value.fit} onValueChange={(fit) => update({ fit })}>
+              <SelectTrigger id={`${id}-fit`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LAYOUT_FITS.map((fit) => (
+                  <SelectItem key={fit} value={fit}>
+                    {fitLabels[fit]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {value.anchor === "custom" && (
+            <>
+              <PixelField id={`${id}-x`} label="X" value={value.x} onCommit={(x) => update({ x })} />
+              <PixelField id={`${id}-y`} label="Y" value={value.y} onCommit={(y) => update({ y })} />
+            </>
+          )}
+          <PixelField
+            id={`${id}-max-width`}
+            label="Max width"
+            placeholder="None"
+            value={value.maxWidth}
+            onCommit={(maxWidth) => update({ maxWidth })}
+          />
+          <PixelField
+            id={`${id}-max-height`}
+            label="Max height"
+            placeholder="None"
+            value={value.maxHeight}
+            onCommit={(maxHeight) => update({ maxHeight })}
+          />
+          <PixelField
+            id={`${id}-padding`}
+            label="Padding"
+            value={value.padding}
+            onCommit={(padding) => update({ padding })}
+          />
+        </div>
+      </div>
+
+      {showCanvasSize && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <PixelField
+            id={`${id}-canvas-width`}
+            label="Canvas width"
+            value={value.canvasWidth}
+            onCommit={(canvasWidth) => update({ canvasWidth })}
+          />
+          <PixelField
+            id={`${id}-canvas-height`}
+            label="Canvas height"
+            value={value.canvasHeight}
+            onCommit={(canvasHeight) => update({ canvasHeight })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useId, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MediaThumbnail } from "@/components/media-thumbnail";
+import { useMediaLibrary } from "@/hooks/use-media-library";
+import { matchesLibrarySearch, parseTags, type LibraryItem } from "@/lib/media-library";
+import { cn } from "@/lib/utils";
+
+interface MediaLibraryProps {
+  onSelect: (item: LibraryItem) => void;
+  /** URL currently on screen, highlighted in the list. */
+  currentUrl?: string;
+  className?: string;
+}
+
+export function MediaLibrary({ onSelect, currentUrl, className }: MediaLibraryProps) {
+  const id = useId();
+  const { toast } = useToast();
+  const { items, isLoading, setTags, remove } = useMediaLibrary();
+  const [query, setQuery] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<LibraryItem | null>(null);
+  const visibleItems = items.filter((item) => matchesLibrarySearch(item, query));
+
+  const confirmDelete = async (item: LibraryItem) => {
+    const removeError = await remove(item);
+    if (removeError) {
+      toast({
+        title: "File kept in storage",
+        description: `${item.name} left your library, but its file couldn't be deleted: ${removeError.message}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className={cn("space-y-3 rounded-lg border border-primary/50 p-4", className)}>
+      <div className="space-y-0.5">
+        <Label htmlFor={`${id}-search`} className="text-base">
+          Media library
+        </Label>
+        <p className="text-sm text-muted-foreground">Files you uploaded in this browser. Click one to use it.</p>
+      </div>
+
+      <Input
+        id={`${id}-search`}
+        type="search"
+        placeholder="Search by name or tag"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading library…</p>}
+      {!isLoading && !visibleItems.length && (
+        <p className="text-sm text-muted-foreground">
+          {items.length ? "Nothing matches your search." : "Nothing uploaded yet."}
+        </p>
+      )}
+
+      <ul className="max-h-72 space-y-2 overflow-y-auto pr-1">
+        {visibleItems.map((item) => (
+          <li key={item.id} className="flex items-center gap-3">
+            <button
+              type="button"
+              className={cn(
+                "h-12 w-16 flex-shrink-0 overflow-hidden rounded-md border bg-muted transition",
+                item.url === currentUrl ? "border-primary ring-2 ring-primary" : "border-border hover:border-primary/60",
+              )}
+              onClick={() => onSelect(item)}
+            >
+              <MediaThumbnail src={item.url} alt={item.name} mediaType={item.mediaType} />
+              <span className="sr-only">Use {item.name}</span>
+            </button>
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="truncate text-sm" title={item.name}>
+                {item.name}
+                <span className="text-xs text-muted-foreground">
+                  {" "}
+                  · {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                </span>
+              </p>
+              <Input
+                key={item.tags.join(",")}
+                defaultValue={item.tags.join(", ")}
+                placeholder="Tags, comma separated"
+                aria-label={`Tags for ${item.name}`}
+                className="h-7 text-xs"
+                onBlur={(e) => {
+                  const tags = parseTags(e.target.value);
+                  if (tags.join(",") !== item.tags.join(",")) void setTags(item, tags);
+                }}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              className="flex-shrink-0 border-destructive text-destructive hover:bg-destructive/10"
+              onClick={() => setPendingDelete(item)}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete {item.name}</span>
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <AlertDialog open={Boolean(pendingDelete)} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The file is removed from your library. It is also deleted from storage unless a session or another
+              library still uses it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && void confirmDelete(pendingDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
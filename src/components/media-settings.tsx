@@ -0,0 +1,51 @@
+import { useId } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { MediaOptions } from "@/lib/media";
+
+const options: { key: keyof MediaOptions; label: string; description: string }[] = [
+  { key: "loop", label: "Loop", description: "Repeat the clip while it is revealed." },
+  { key: "muted", label: "Mute", description: "Turn off to play the clip's audio through OBS." },
+  {
+    key: "hideOnEnd",
+    label: "Play once, then hide",
+    description: "Hide the clip automatically when it finishes. Overrides looping.",
+  },
+  {
+    key: "restartOnReveal",
+    label: "Restart on reveal",
+    description: "Start from the beginning every time the clip is revealed.",
+  },
+];
+
+interface MediaSettingsProps {
+  value: MediaOptions;
+  onChange: (value: MediaOptions) => void;
+}
+
+export function MediaSettings({ value, onChange }: MediaSettingsProps) {
+  const id = useId();
+
+  return (
+    <div className="space-y-4 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label className="text-base">Video playback</Label>
+        <p className="text-sm text-muted-foreground">The preview below plays the clip the same way.</p>
+      </div>
+      {options.map(({ key, label, description }) => (
+        <div key={key} className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${id}-${key}`}>{label}</Label>
+            <p className="text-xs text-muted-foreground">{description}</p>
+          </div>
+          <Switch
+            id={`${id}-${key}`}
+            checked={value[key]}
+            disabled={key === "loop" && value.hideOnEnd}
+            onCheckedChange={(checked) => onChange({ ...value, [key]: checked })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
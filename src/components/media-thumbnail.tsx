@@ -0,0 +1,24 @@
+import type { MediaType } from "@/lib/media";
+
+interface MediaThumbnailProps {
+  src: string;
+  alt: string;
+  mediaType?: MediaType;
+}
+
+/** Small cover-cropped preview; videos show their first frame without playing. */
+export function MediaThumbnail({ src, alt, mediaType = "image" }: MediaThumbnailProps) {
+  if (mediaType === "video") {
+    return (
+      <video
+        src={src}
+        aria-label={alt}
+        muted
+        playsInline
+        preload="metadata"
+        className="h-full w-full object-cover"
+      />
+    );
+  }
+  return <img src={src} alt={alt} className="h-full w-full object-cover" />;
+}
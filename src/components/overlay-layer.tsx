@@ -0,0 +1,60 @@
+import { AnimatePresence } from "framer-motion";
+import { TransitionMedia } from "@/components/transition-media";
+import { getLayoutStyles, type LayoutSettings } from "@/lib/layout";
+import type { MediaOptions, MediaType } from "@/lib/media";
+import type { TransitionSettings } from "@/lib/transitions";
+
+interface OverlayLayerProps {
+  url: string;
+  alt: string;
+  mediaType?: MediaType;
+  mediaOptions?: MediaOptions;
+  isRevealed: boolean;
+  zIndex: number;
+  layout: LayoutSettings;
+  transition: TransitionSettings;
+  onLoad?: () => void;
+  onEnded?: () => void;
+  onError?: () => void;
+}
+
+/** One full-canvas media layer, as drawn by the browser source and the previews. */
+export function OverlayLayer({
+  url,
+  alt,
+  mediaType,
+  mediaOptions,
+  isRevealed,
+  zIndex,
+  layout,
+  transition,
+  onLoad,
+  onEnded,
+  onError,
+}: OverlayLayerProps) {
+  const layoutStyles = getLayoutStyles(layout);
+
+  return (
+    <div className="absolute inset-0" style={{ zIndex }}>
+      <div style={layoutStyles.area}>
+        {/* Media is stacked so the outgoing item cross-fades with the incoming one. */}
+        <AnimatePresence>
+          <TransitionMedia
+            key={url}
+            src={url}
+            alt={alt}
+            mediaType={mediaType}
+            mediaOptions={mediaOptions}
+            onLoad={onLoad}
+            onEnded={onEnded}
+            onError={onError}
+            className="block"
+            style={layoutStyles.image}
+            isRevealed={isRevealed}
+            transition={transition}
+          />
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatRemaining, type ScheduledAction, type SessionSchedule } from "@/lib/schedules";
+
+type ScheduleMode = "countdown" | "clock";
+
+interface ScheduleSettingsProps {
+  value: SessionSchedule;
+  onSchedule: (action: ScheduledAction, at: Date) => void;
+  onCancelSchedule: () => void;
+  onAutoHideChange: (seconds: number | null) => void;
+  onRevealFor: (seconds: number) => void;
+  /** Milliseconds to add to the local clock to match the server's (useServerTimeOffset). */
+  clockOffset: number;
+}
+
+const toPositiveInteger = (value: string) => {
+  const number = Math.round(Number(value));
+  return value.trim() && Number.isFinite(number) && number > 0 ? number : null;
+};
+
+/** Re-renders every second while something is counting down. */
+const useNow = (isActive: boolean, clockOffset: number) => {
+  const [now, setNow] = useState(() => Date.now() + clockOffset);
+  useEffect(() => {
+    if (!isActive) return;
+    setNow(Date.now() + clockOffset);
+    const intervalId = setInterval(() => setNow(Date.now() + clockOffset), 1000);
+    return () => clearInterval(intervalId);
+  }, [isActive, clockOffset]);
+  return now;
+};
+
+export function ScheduleSettings({
+  value,
+  onSchedule,
+  onCancelSchedule,
+  onAutoHideChange,
+  onRevealFor,
+  clockOffset,
+}: ScheduleSettingsProps) {
+  const id = useId();
+  const [revealForSeconds, setRevealForSeconds] = useState("10");
+  const [action, setAction] = useState<ScheduledAction>("reveal");
+  const [mode, setMode] = useState<ScheduleMode>("countdown");
+  const [countdownSeconds, setCountdownSeconds] = useState("60");
+  const [clockTime, setClockTime] = useState("");
+  const now = useNow(Boolean(value.scheduledAt || value.hideAt), clockOffset);
+
+  const countdown = toPositiveInteger(countdownSeconds);
+  const clockDate = clockTime ? new Date(clockTime) : null;
+  const canSchedule =
+    mode === "countdown" ? Boolean(countdown) : Boolean(clockDate && clockDate.getTime() > Date.now() + clockOffset);
+
+  const handleSchedule = () => {
+    if (!canSchedule) return;
+    onSchedule(
+      action,
+      mode === "countdown" ? new Date(Date.now() + clockOffset + (countdown as number) * 1000) : clockDate,
+    );
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label className="text-base">Timed reveal</Label>
+        <p className="text-sm text-muted-foreground">
+          Schedules are saved with the session and still fire if you close this page.
+        </p>
+      </div>
+
+      {(value.scheduledAt || value.hideAt) && (
+        <div className="space-y-2 rounded-md bg-muted p-3 text-sm">
+          {value.scheduledAction && value.scheduledAt && (
+            <div className="flex items-center justify-between gap-3">
+              <span>
+                {value.scheduledAction === "reveal" ? "Reveals" : "Hides"} in{" "}
+                <span className="font-mono">{formatRemaining(Date.parse(value.scheduledAt) - now)}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  (at {new Date(value.scheduledAt).toLocaleTimeString()})
+                </span>
+              </span>
+              <Button variant="link" size="sm" className="h-auto px-0 text-primary" onClick={onCancelSchedule}>
+                Cancel
+              </Button>
+            </div>
+          )}
+          {value.hideAt && (
+            <p>
+              Hides automatically in{" "}
+              <span className="font-mono">{formatRemaining(Date.parse(value.hideAt) - now)}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-reveal-for`}>Reveal for (seconds)</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${id}-reveal-for`}
+              type="number"
+              min={1}
+              value={revealForSeconds}
+              onChange={(e) => setRevealForSeconds(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              className="border-primary text-primary hover:bg-primary/10"
+              disabled={!toPositiveInteger(revealForSeconds)}
+              onClick={() => onRevealFor(toPositiveInteger(revealForSeconds) as number)}
+            >
+              Reveal
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-auto-hide`}>Auto-hide after (seconds)</Label>
+          <Input
+            key={value.autoHideSeconds ?? "off"}
+            id={`${id}-auto-hide`}
+            type="number"
+            min={1}
+            placeholder="Off"
+            defaultValue={value.autoHideSeconds ?? ""}
+            onBlur={(e) => {
+              const seconds = toPositiveInteger(e.target.value);
+              if (seconds !== value.autoHideSeconds) onAutoHideChange(seconds);
+            }}
+            onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-[auto_auto_1fr_auto] sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-action`}>Schedule</Label>
+          <Select value={action} onValueChange={(next) => setAction(next as ScheduledAction)}>
+            <SelectTrigger id={`${id}-action`} className="sm:w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="reveal">Reveal</SelectItem>
+              <SelectItem value="hide">Hide</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-mode`}>When</Label>
+          <Select value={mode} onValueChange={(next) => setMode(next as ScheduleMode)}>
+            <SelectTrigger id={`${id}-mode`} className="sm:w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="countdown">After seconds</SelectItem>
+              <SelectItem value="clock">At a time</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          {mode === "countdown" ? (
+            <>
+              <Label htmlFor={`${id}-countdown`}>Seconds</Label>
+              <Input
+                id={`${id}-countdown`}
+                type="number"
+                min={1}
+                value={countdownSeconds}
+                onChange={(e) => setCountdownSeconds(e.target.value)}
+              />
+            </>
+          ) : (
+            <>
+              <Label htmlFor={`${id}-clock`}>Time</Label>
+              <Input
+                id={`${id}-clock`}
+                type="datetime-local"
+                step={1}
+                value={clockTime}
+                onChange={(e) => setClockTime(e.target.value)}
+              />
+            </>
+          )}
+        </div>
+        <Button
+          className="bg-primary hover:bg-primary/90 text-primary-foreground"
+          disabled={!canSchedule}
+          onClick={handleSchedule}
+        >
+          Schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useRef, useState, ChangeEvent } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { LayoutSettings } from "@/components/layout-settings";
+import { TransitionSettings } from "@/components/transition-settings";
+import { MediaThumbnail } from "@/components/media-thumbnail";
+import { MEDIA_ACCEPT } from "@/lib/media";
+import { MAIN_LAYER_Z_INDEX, type SessionLayer } from "@/lib/layers";
+
+interface SessionLayersProps {
+  layers: SessionLayer[];
+  onAddUrl: (url: string) => void;
+  onAddFile: (file: File) => void;
+  onChange: (layer: SessionLayer) => void;
+  onRemove: (layerId: string) => void;
+  onMove: (layerId: string, direction: "up" | "down") => void;
+}
+
+export function SessionLayers({ layers, onAddUrl, onAddFile, onChange, onRemove, onMove }: SessionLayersProps) {
+  const [newUrl, setNewUrl] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Top of the stack first, the way layer lists read in OBS.
+  const orderedLayers = [...layers].sort((a, b) => b.zIndex - a.zIndex);
+
+  const handleAddUrl = () => {
+    if (!newUrl.trim()) return;
+    onAddUrl(newUrl.trim());
+    setNewUrl("");
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onAddFile(file);
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label className="text-base">Layers</Label>
+        <p className="text-sm text-muted-foreground">
+          Extra images on the same source, such as logos or lower thirds. Each one is revealed on its own.
+        </p>
+      </div>
+
+      {orderedLayers.length > 0 && (
+        <Accordion type="multiple" className="rounded-md border">
+          {orderedLayers.map((layer) => (
+            <AccordionItem key={layer.id} value={layer.id} className="px-3 last:border-b-0">
+              <div className="flex items-center gap-3 py-2">
+                <div className="h-10 w-14 flex-shrink-0 overflow-hidden rounded border bg-muted">
+                  <MediaThumbnail src={layer.url} alt={layer.name} mediaType={layer.mediaType} />
+                </div>
+                <Input
+                  key={layer.name}
+                  defaultValue={layer.name}
+                  aria-label="Layer name"
+                  className="h-8"
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== layer.name) onChange({ ...layer, name });
+                  }}
+                  onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                />
+                <span className="w-16 flex-shrink-0 text-xs text-muted-foreground">
+                  {layer.zIndex > MAIN_LAYER_Z_INDEX ? "Above" : "Below"} main
+                </span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onMove(layer.id, "up")}>
+                  <ArrowUp className="h-4 w-4" />
+                  <span className="sr-only">Move layer up</span>
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onMove(layer.id, "down")}>
+                  <ArrowDown className="h-4 w-4" />
+                  <span className="sr-only">Move layer down</span>
+                </Button>
+                <Switch
+                  checked={layer.isRevealed}
+                  onCheckedChange={(isRevealed) => onChange({ ...layer, isRevealed })}
+                  aria-label={`Reveal ${layer.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => onRemove(layer.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove layer</span>
+                </Button>
+                <AccordionTrigger className="py-0" />
+              </div>
+              <AccordionContent className="space-y-4">
+                <TransitionSettings
+                  value={layer.transition}
+                  onChange={(transition) => onChange({ ...layer, transition })}
+                />
+                <LayoutSettings
+                  value={layer.layout}
+                  onChange={(layout) => onChange({ ...layer, layout })}
+                  showCanvasSize={false}
+                />
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          type="url"
+          placeholder="https://example.com/logo.png"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAddUrl()}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          className="border-primary text-primary hover:bg-primary/10"
+          onClick={handleAddUrl}
+        >
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add layer from URL</span>
+        </Button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          accept={MEDIA_ACCEPT}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          className="border-primary text-primary hover:bg-primary/10"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          <span className="sr-only">Upload layer image</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useRef, useState, ChangeEvent } from "react";
+import { ChevronLeft, ChevronRight, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { MediaThumbnail } from "@/components/media-thumbnail";
+import { MEDIA_ACCEPT } from "@/lib/media";
+import type { PlaylistEntry } from "@/lib/session-shared";
+
+interface SessionPlaylistProps {
+  entries: PlaylistEntry[];
+  currentIndex: number;
+  autoAdvanceSeconds: number | null;
+  onSelect: (index: number) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onAddUrl: (url: string) => void;
+  onAddFile: (file: File) => void;
+  onRemove: (index: number) => void;
+  onAutoAdvanceChange: (seconds: number | null) => void;
+}
+
+export function SessionPlaylist({
+  entries,
+  currentIndex,
+  autoAdvanceSeconds,
+  onSelect,
+  onPrevious,
+  onNext,
+  onAddUrl,
+  onAddFile,
+  onRemove,
+  onAutoAdvanceChange,
+}: SessionPlaylistProps) {
+  const [newUrl, setNewUrl] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const hasMultiple = entries.length > 1;
+
+  const handleAddUrl = () => {
+    if (!newUrl.trim()) return;
+    onAddUrl(newUrl.trim());
+    setNewUrl("");
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onAddFile(file);
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleAutoAdvanceChange = (value: string) => {
+    const seconds = Math.floor(Number(value));
+    onAutoAdvanceChange(Number.isFinite(seconds) && seconds > 0 ? seconds : null);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/50 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="space-y-0.5">
+          <Label className="text-base">Playlist</Label>
+          <p className="text-sm text-muted-foreground">
+            Image {entries.length ? currentIndex + 1 : 0} of {entries.length}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="border-primary text-primary hover:bg-primary/10"
+            onClick={onPrevious}
+            disabled={!hasMultiple}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous image</span>
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="border-primary text-primary hover:bg-primary/10"
+            onClick={onNext}
+            disabled={!hasMultiple}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next image</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {entries.map((entry, index) => (
+          <div key={`${entry.url}-${index}`} className="relative flex-shrink-0">
+            <button
+              type="button"
+              className={cn(
+                "h-16 w-24 overflow-hidden rounded-md border bg-muted transition",
+                index === currentIndex
+                  ? "border-primary ring-2 ring-primary"
+                  : "border-border hover:border-primary/60",
+              )}
+              onClick={() => onSelect(index)}
+            >
+              <MediaThumbnail src={entry.url} alt={`Playlist item ${index + 1}`} mediaType={entry.mediaType} />
+            </button>
+            {hasMultiple && (
+              <Button
+                variant="destructive"
+                size="icon"
+                className="absolute -right-1 -top-1 h-5 w-5"
+                onClick={() => onRemove(index)}
+              >
+                <Trash2 className="h-3 w-3" />
+                <span className="sr-only">Remove image {index + 1}</span>
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="url"
+          placeholder="https://example.com/next-image.png"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAddUrl()}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          className="border-primary text-primary hover:bg-primary/10"
+          onClick={handleAddUrl}
+        >
+          <Plus className="h-4 w-4" />
+          <span className="sr-only">Add image URL</span>
+        </Button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          accept={MEDIA_ACCEPT}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          className="border-primary text-primary hover:bg-primary/10"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          <span className="sr-only">Upload image to playlist</span>
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label htmlFor="auto-advance">Auto-advance</Label>
+          <p className="text-xs text-muted-foreground">
+            Seconds between images. Keeps running with this page closed. Leave empty to advance manually.
+          </p>
+        </div>
+        <Input
+          id="auto-advance"
+          type="number"
+          min={1}
+          className="w-24"
+          placeholder="Off"
+          value={autoAdvanceSeconds ?? ""}
+          onChange={(e) => handleAutoAdvanceChange(e.target.value)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { normalizeSlug, validateSlug } from "@/lib/slugs";
+
+interface SessionSlugFieldProps {
+  slug: string | null;
+  /** Resolves to an error message, or null once the slug is saved. */
+  onSave: (slug: string | null) => Promise<string | null>;
+}
+
+export function SessionSlugField({ slug, onSave }: SessionSlugFieldProps) {
+  const id = useId();
+  const [draft, setDraft] = useState(slug ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const normalized = normalizeSlug(draft);
+
+  const save = async () => {
+    const next = normalized || null;
+    if (next === slug) return;
+    const validationError = next ? validateSlug(next) : null;
+    setError(validationError);
+    if (validationError) return;
+    setIsSaving(true);
+    const saveError = await onSave(next);
+    setIsSaving(false);
+    setError(saveError);
+    if (!saveError) {
+      setDraft(next ?? "");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Custom URL</Label>
+      <div className="flex gap-2">
+        <div className="flex flex-1 items-center rounded-md border border-input bg-background pl-3 text-sm text-muted-foreground">
+          <span className="font-mono">/source/</span>
+          <Input
+            id={id}
+            value={draft}
+            placeholder="main-card-cam"
+            className="border-0 pl-0 font-mono focus-visible:ring-0 focus-visible:ring-offset-0"
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => e.key === "Enter" && save()}
+          />
+        </div>
+        <Button
+          variant="outline"
+          className="border-primary text-primary hover:bg-primary/10"
+          disabled={isSaving || (normalized || null) === slug}
+          onClick={save}
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </Button>
+      </div>
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Optional. A memorable URL you can move to a new session later, so OBS scenes keep working.
+          {normalized && normalized !== draft.trim() && ` Will be saved as "${normalized}".`}
+        </p>
+      )}
+    </div>
+  );
+}
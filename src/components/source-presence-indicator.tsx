@@ -0,0 +1,65 @@
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { ObservedSourcePresence } from "@/lib/presence";
+import { cn } from "@/lib/utils";
+
+interface SourcePresenceIndicatorProps {
+  sources: ObservedSourcePresence[];
+  /** The session's current image, to flag sources still showing something else. */
+  currentUrl?: string | null;
+}
+
+const describeContent = (source: ObservedSourcePresence, currentUrl: string | null | undefined) => {
+  if (source.isShowingFallback) return "Showing the fallback image";
+  if (!source.imageUrl) return "Showing nothing";
+  if (currentUrl && source.imageUrl !== currentUrl) return "Still showing the previous image";
+  return "Showing the current image";
+};
+
+/** "Live in OBS" pill with a popover listing every open browser source. */
+export function SourcePresenceIndicator({ sources, currentUrl }: SourcePresenceIndicatorProps) {
+  const isLive = sources.length > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 gap-2 rounded-full px-3 text-xs">
+          <span className="relative flex h-2 w-2">
+            {isLive && <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-green-500 opacity-75" />}
+            <span className={cn("relative inline-flex h-2 w-2 rounded-full", isLive ? "bg-green-500" : "bg-muted-foreground")} />
+          </span>
+          {isLive ? `Live in OBS · ${sources.length}` : "No source open"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <div className="space-y-0.5">
+          <p className="font-medium">Browser sources</p>
+          <p className="text-xs text-muted-foreground">
+            {isLive
+              ? "These browser sources have this session open right now."
+              : "No browser source has this session open. Reveals won't appear on stream until one does."}
+          </p>
+        </div>
+        {isLive && (
+          <ul className="space-y-2 text-sm">
+            {sources.map((source, index) => (
+              <li key={source.clientId} className="rounded-md bg-muted p-2">
+                <p className="font-medium">
+                  Source {index + 1}{" "}
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {source.viewportWidth}×{source.viewportHeight}
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {describeContent(source, currentUrl)} · seen{" "}
+                  {formatDistanceToNow(source.receivedAt, { addSuffix: true })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
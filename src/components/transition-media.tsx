@@ -0,0 +1,91 @@
+import { useEffect, useRef, type CSSProperties } from "react";
+import { motion } from "framer-motion";
+import {
+  getTransitionTiming,
+  getTransitionVariants,
+  type TransitionSettings,
+} from "@/lib/transitions";
+import { DEFAULT_MEDIA_OPTIONS, type MediaOptions, type MediaType } from "@/lib/media";
+
+interface TransitionMediaProps {
+  src: string;
+  alt: string;
+  mediaType?: MediaType;
+  mediaOptions?: MediaOptions;
+  isRevealed: boolean;
+  transition: TransitionSettings;
+  className?: string;
+  style?: CSSProperties;
+  onLoad?: () => void;
+  /** Fires when a non-looping video reaches its end. */
+  onEnded?: () => void;
+  /** Fires when the media can't be loaded or decoded. */
+  onError?: () => void;
+}
+
+/**
+ * The revealable image or video shared by the browser source and the
+ * controller previews, so both play the session's configured transition.
+ * Render it inside an AnimatePresence keyed by src.
+ */
+export function TransitionMedia({
+  src,
+  alt,
+  mediaType = "image",
+  mediaOptions = DEFAULT_MEDIA_OPTIONS,
+  isRevealed,
+  transition,
+  className,
+  style,
+  onLoad,
+  onEnded,
+  onError,
+}: TransitionMediaProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { restartOnReveal } = mediaOptions;
+
+  // Videos only play while revealed.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (!isRevealed) {
+      video.pause();
+      return;
+    }
+    if (restartOnReveal) {
+      video.currentTime = 0;
+    }
+    // Browsers reject unmuted autoplay outside OBS; the clip then stays paused.
+    video.play().catch((error) => console.warn("Video playback was blocked:", error));
+  }, [isRevealed, restartOnReveal, src]);
+
+  const motionProps = {
+    className,
+    style,
+    variants: getTransitionVariants(transition),
+    initial: "hidden",
+    animate: isRevealed ? "visible" : "hidden",
+    exit: "hidden",
+    transition: getTransitionTiming(transition),
+  };
+
+  if (mediaType === "video") {
+    return (
+      <motion.video
+        {...motionProps}
+        ref={videoRef}
+        src={src}
+        aria-label={alt}
+        muted={mediaOptions.muted}
+        loop={mediaOptions.loop && !mediaOptions.hideOnEnd}
+        playsInline
+        preload="auto"
+        onLoadedData={onLoad}
+        onEnded={onEnded}
+        onError={onError}
+      />
+    );
+  }
+
+  return <motion.img {...motionProps} src={src} alt={alt} onLoad={onLoad} onError={onError} />;
+}
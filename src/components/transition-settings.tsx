@@ -0,0 +1,140 @@
+import { useId, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_TRANSITION_DURATION,
+  TRANSITION_DIRECTIONS,
+  TRANSITION_EASINGS,
+  TRANSITION_PRESETS,
+  type TransitionDirection,
+  type TransitionEasing,
+  type TransitionPreset,
+  type TransitionSettings as TransitionSettingsValue,
+} from "@/lib/transitions";
+
+const presetLabels: Record<TransitionPreset, string> = {
+  none: "None (cut)",
+  fade: "Fade",
+  slide: "Slide",
+  zoom: "Zoom",
+  flip: "Flip",
+  blur: "Blur in",
+  wipe: "Wipe",
+};
+
+const directionLabels: Record<TransitionDirection, string> = {
+  left: "From left",
+  right: "From right",
+  top: "From top",
+  bottom: "From bottom",
+};
+
+interface TransitionSettingsProps {
+  value: TransitionSettingsValue;
+  onChange: (value: TransitionSettingsValue) => void;
+}
+
+export function TransitionSettings({ value, onChange }: TransitionSettingsProps) {
+  const id = useId();
+  const hasDirection = value.preset === "slide" || value.preset === "wipe";
+  const isAnimated = value.preset !== "none";
+  // Held locally while dragging so only the final duration is saved.
+  const [draftDuration, setDraftDuration] = useState<number | null>(null);
+  const duration = draftDuration ?? value.duration;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-primary/50 p-4">
+      <div className="space-y-0.5">
+        <Label className="text-base">Reveal transition</Label>
+        <p className="text-sm text-muted-foreground">
+          How the image enters and leaves the stream. The preview below uses the same animation.
+        </p>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-preset`}>Style</Label>
+          <Select
+            value={value.preset}
+            onValueChange={(preset) => onChange({ ...value, preset: preset as TransitionPreset })}
+          >
+            <SelectTrigger id={`${id}-preset`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSITION_PRESETS.map((preset) => (
+                <SelectItem key={preset} value={preset}>
+                  {presetLabels[preset]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {hasDirection && (
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-direction`}>Direction</Label>
+            <Select
+              value={value.direction}
+              onValueChange={(direction) =>
+                onChange({ ...value, direction: direction as TransitionDirection })
+              }
+            >
+              <SelectTrigger id={`${id}-direction`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSITION_DIRECTIONS.map((direction) => (
+                  <SelectItem key={direction} value={direction}>
+                    {directionLabels[direction]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {isAnimated && (
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-easing`}>Easing</Label>
+            <Select
+              value={value.easing}
+              onValueChange={(easing) => onChange({ ...value, easing: easing as TransitionEasing })}
+            >
+              <SelectTrigger id={`${id}-easing`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSITION_EASINGS.map((easing) => (
+                  <SelectItem key={easing} value={easing}>
+                    {easing}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {isAnimated && (
+          <div className="space-y-2">
+            <Label>Duration: {duration.toFixed(2)}s</Label>
+            <Slider
+              min={0.05}
+              max={MAX_TRANSITION_DURATION}
+              step={0.05}
+              value={[duration]}
+              onValueChange={([next]) => setDraftDuration(next)}
+              onValueCommit={([next]) => {
+                setDraftDuration(null);
+                onChange({ ...value, duration: next });
+              }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
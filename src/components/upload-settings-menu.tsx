@@ -0,0 +1,140 @@
+import { useId, useState } from "react";
+import { ImageUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_UPLOAD_SETTINGS,
+  OUTPUT_FORMATS,
+  loadUploadSettings,
+  parseUploadSettings,
+  saveUploadSettings,
+  type OutputFormat,
+  type UploadSettings,
+} from "@/lib/upload-settings";
+
+const formatLabels: Record<OutputFormat, string> = {
+  avif: "AVIF (smallest, falls back to WebP)",
+  webp: "WebP",
+  original: "Keep original format",
+};
+
+/** Upload limits for this browser; uploadImage reads them from localStorage. */
+export function UploadSettingsMenu() {
+  const id = useId();
+  const [settings, setSettings] = useState<UploadSettings>(loadUploadSettings);
+
+  const update = (patch: Partial<Record<keyof UploadSettings, unknown>>) => {
+    const next = parseUploadSettings({ ...settings, ...patch });
+    setSettings(next);
+    saveUploadSettings(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon">
+          <ImageUp className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">Upload settings</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-0.5">
+          <p className="font-medium">Upload settings</p>
+          <p className="text-xs text-muted-foreground">
+            Images are checked, resized and re-encoded in your browser before upload, which also removes EXIF and GPS
+            data. Animated images are uploaded as they are.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-max-size`}>Max file size (MB)</Label>
+            <Input
+              key={settings.maxFileSizeMb}
+              id={`${id}-max-size`}
+              type="number"
+              min={1}
+              defaultValue={settings.maxFileSizeMb}
+              onBlur={(e) => update({ maxFileSizeMb: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-max-dimension`}>Max side (px)</Label>
+            <Input
+              key={settings.maxDimension}
+              id={`${id}-max-dimension`}
+              type="number"
+              min={64}
+              defaultValue={settings.maxDimension}
+              onBlur={(e) => update({ maxDimension: e.target.value })}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor={`${id}-downscale`}>Shrink to the canvas size</Label>
+          <Switch
+            id={`${id}-downscale`}
+            checked={settings.downscaleToCanvas}
+            onCheckedChange={(downscaleToCanvas) => update({ downscaleToCanvas })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-format`}>Format</Label>
+          <Select value={settings.format} onValueChange={(format) => update({ format })}>
+            <SelectTrigger id={`${id}-format`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OUTPUT_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {formatLabels[format]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-quality`}>Quality (0.1–1)</Label>
+          <Input
+            key={settings.quality}
+            id={`${id}-quality`}
+            type="number"
+            min={0.1}
+            max={1}
+            step={0.05}
+            defaultValue={settings.quality}
+            onBlur={(e) => update({ quality: e.target.value })}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${id}-cache-remote`}>Copy linked images to storage</Label>
+            <p className="text-xs text-muted-foreground">Keeps the overlay up if the original host goes down. Applies once a session exists.</p>
+          </div>
+          <Switch
+            id={`${id}-cache-remote`}
+            checked={settings.cacheRemoteMedia}
+            onCheckedChange={(cacheRemoteMedia) => update({ cacheRemoteMedia })}
+          />
+        </div>
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto px-0 text-primary"
+          onClick={() => update(DEFAULT_UPLOAD_SETTINGS)}
+        >
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState, type MutableRefObject } from "react";
+import {
+  DEFAULT_HOTKEYS,
+  HOTKEY_ACTIONS,
+  getEventHotkey,
+  isEditableTarget,
+  loadHotkeys,
+  saveHotkeys,
+  type HotkeyAction,
+  type HotkeyBindings,
+} from "@/lib/hotkeys";
+
+export type HotkeyHandlers = Partial<Record<HotkeyAction, () => void>>;
+
+/**
+ * Listens for the saved hotkeys and calls the matching handler. Handlers are
+ * read through a ref because they close over page state and are defined after
+ * the page's early returns; actions without one are ignored.
+ */
+export function useHotkeys(handlersRef: MutableRefObject<HotkeyHandlers>) {
+  const [bindings, setBindings] = useState<HotkeyBindings>(loadHotkeys);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat || isEditableTarget(event.target)) return;
+      // Keys pressed inside dialogs and popovers belong to them.
+      if (event.target instanceof Element && event.target.closest('[role="dialog"]')) return;
+      const hotkey = getEventHotkey(event);
+      const action = (Object.keys(HOTKEY_ACTIONS) as HotkeyAction[]).find(
+        (candidate) => bindings[candidate] === hotkey,
+      );
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [bindings, handlersRef]);
+
+  const updateBindings = useCallback((next: HotkeyBindings) => {
+    setBindings(next);
+    saveHotkeys(next);
+  }, []);
+
+  /** Binds an action, handing its old key to whichever action had the new one. */
+  const setBinding = useCallback(
+    (action: HotkeyAction, hotkey: string) => {
+      const next = { ...bindings, [action]: hotkey };
+      const clash = (Object.keys(HOTKEY_ACTIONS) as HotkeyAction[]).find(
+        (other) => other !== action && bindings[other] === hotkey,
+      );
+      if (clash) {
+        next[clash] = bindings[action];
+      }
+      updateBindings(next);
+    },
+    [bindings, updateBindings],
+  );
+
+  const resetBindings = useCallback(() => updateBindings(DEFAULT_HOTKEYS), [updateBindings]);
+
+  return { bindings, setBinding, resetBindings };
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState, type DragEvent, type MutableRefObject } from "react";
+import { isEditableTarget } from "@/lib/hotkeys";
+import { readTransferredMedia, type TransferredMedia } from "@/lib/media";
+
+export type MediaInputHandler = (media: TransferredMedia) => void;
+
+/**
+ * Accepts media pasted anywhere on the page (Ctrl+V) and returns props that
+ * turn an element into a drop zone. The handler is read through a ref for the
+ * same reason as useHotkeys; while it is unset, drops and pastes are ignored.
+ */
+export function useMediaInput(handlerRef: MutableRefObject<MediaInputHandler | undefined>) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const handler = handlerRef.current;
+      const media = handler && readTransferredMedia(event.clipboardData);
+      if (!media) return;
+      // Pasting a link into a text field should still just paste the text.
+      if (!media.file && isEditableTarget(event.target)) return;
+      event.preventDefault();
+      handler(media);
+    };
+    // A file dropped just outside a drop zone would otherwise make the
+    // browser navigate away to it, ending the controller page mid-show.
+    const preventFileNavigation = (event: globalThis.DragEvent) => {
+      if (event.dataTransfer?.types.includes("Files")) event.preventDefault();
+    };
+    window.addEventListener("paste", handlePaste);
+    window.addEventListener("dragover", preventFileNavigation);
+    window.addEventListener("drop", preventFileNavigation);
+    return () => {
+      window.removeEventListener("paste", handlePaste);
+      window.removeEventListener("dragover", preventFileNavigation);
+      window.removeEventListener("drop", preventFileNavigation);
+    };
+  }, [handlerRef]);
+
+  const dropZoneProps = {
+    onDragOver: (event: DragEvent<HTMLElement>) => {
+      if (!handlerRef.current) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "copy";
+      setIsDragging(true);
+    },
+    onDragLeave: (event: DragEvent<HTMLElement>) => {
+      // dragleave also fires when moving onto a child element.
+      if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDragging(false);
+    },
+    onDrop: (event: DragEvent<HTMLElement>) => {
+      setIsDragging(false);
+      const handler = handlerRef.current;
+      const media = handler && readTransferredMedia(event.dataTransfer);
+      if (!media) return;
+      event.preventDefault();
+      handler(media);
+    },
+  };
+
+  return { isDragging, dropZoneProps };
+}
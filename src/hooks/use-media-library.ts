@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  deleteLibraryItem,
+  listLibraryItems,
+  updateLibraryTags,
+  type LibraryItem,
+} from "@/lib/media-library";
+
+/**
+ * Loads this browser's media library and keeps the list in step with tag
+ * edits and deletes. Each change is applied locally first and reloaded from
+ * the database if it fails.
+ */
+export function useMediaLibrary() {
+  const [items, setItems] = useState<LibraryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    const sb = supabase;
+    if (!sb) {
+      setIsLoading(false);
+      return;
+    }
+    const { items: loaded, error } = await listLibraryItems(sb);
+    setIsLoading(false);
+    if (error) {
+      console.error("Failed to load media library:", error);
+      return;
+    }
+    setItems(loaded);
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const setTags = async (item: LibraryItem, tags: string[]) => {
+    if (!supabase) return;
+    setItems((current) => current.map((existing) => (existing.id === item.id ? { ...existing, tags } : existing)));
+    const { error } = await updateLibraryTags(supabase, item, tags);
+    if (error) {
+      console.error("Failed to update tags:", error);
+      await reload();
+    }
+  };
+
+  /** Resolves to the storage error when the item left the library but its file stayed. */
+  const remove = async (item: LibraryItem): Promise<Error | null> => {
+    if (!supabase) return null;
+    setItems((current) => current.filter((existing) => existing.id !== item.id));
+    const { error, removeError } = await deleteLibraryItem(supabase, item);
+    if (error) {
+      console.error("Failed to delete library item:", error);
+      await reload();
+    }
+    return removeError;
+  };
+
+  return { items, isLoading, setTags, remove };
+}
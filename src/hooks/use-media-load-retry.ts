@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import type { MediaType } from "@/lib/media";
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+/** Loads the media off-screen; resolves true once it could be displayed. */
+const probeMedia = (url: string, mediaType: MediaType) =>
+  new Promise<boolean>((resolve) => {
+    if (mediaType === "video") {
+      const video = document.createElement("video");
+      video.preload = "metadata";
+      video.muted = true;
+      video.onloadedmetadata = () => resolve(true);
+      video.onerror = () => resolve(false);
+      video.src = url;
+      return;
+    }
+    const image = new Image();
+    image.onload = () => resolve(true);
+    image.onerror = () => resolve(false);
+    image.src = url;
+  });
+
+/**
+ * Tracks whether the displayed media failed to load. After a failure the URL
+ * is retried off-screen with exponential backoff, so whatever stands in for
+ * it (a fallback image or nothing) stays up until the original really loads.
+ */
+export function useMediaLoadRetry(url: string | null, mediaType: MediaType) {
+  const [hasFailed, setHasFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    setHasFailed(false);
+    setAttempt(0);
+  }, [url]);
+
+  useEffect(() => {
+    if (!url || !hasFailed) return;
+    let isCurrent = true;
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+    const timeoutId = setTimeout(async () => {
+      const loaded = await probeMedia(url, mediaType);
+      if (!isCurrent) return;
+      if (loaded) {
+        setHasFailed(false);
+        setAttempt(0);
+      } else {
+        setAttempt((current) => current + 1);
+      }
+    }, delay);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeoutId);
+    };
+  }, [url, mediaType, hasFailed, attempt]);
+
+  const handleError = useCallback(() => setHasFailed(true), []);
+
+  return { hasFailed, handleError };
+}
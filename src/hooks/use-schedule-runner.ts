@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { applyDueSchedules, getNextDueTime, type SessionSchedule } from "@/lib/schedules";
+
+// Slack after the due time so the database's now() has passed it too.
+const DUE_GRACE_MS = 250;
+// Retried until the row changes, in case this clock runs ahead of the database.
+const RETRY_INTERVAL_MS = 2000;
+// setTimeout overflows past ~24.8 days. Schedules further out than that are
+// left to pg_cron or a later page load.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Fires the session's schedules at the due moment while this page is open.
+ * The database does the actual work, and the resulting row update reaches
+ * every page over realtime. clockOffset corrects this machine's clock to the
+ * database's (see useServerTimeOffset).
+ */
+export function useScheduleRunner(sessionId: string | null, schedule: SessionSchedule, clockOffset = 0) {
+  const dueTime = getNextDueTime(schedule);
+
+  useEffect(() => {
+    const sb = supabase;
+    if (!sb || !sessionId || dueTime === null) return;
+    const delay = Math.min(Math.max(dueTime - (Date.now() + clockOffset), 0) + DUE_GRACE_MS, MAX_TIMEOUT_MS);
+    let retryIntervalId: ReturnType<typeof setInterval> | null = null;
+    const timeoutId = setTimeout(() => {
+      if (Date.now() + clockOffset < dueTime) return;
+      void applyDueSchedules(sb, sessionId);
+      retryIntervalId = setInterval(() => void applyDueSchedules(sb, sessionId), RETRY_INTERVAL_MS);
+    }, delay);
+    return () => {
+      clearTimeout(timeoutId);
+      if (retryIntervalId) {
+        clearInterval(retryIntervalId);
+      }
+    };
+  }, [sessionId, dueTime, clockOffset]);
+}
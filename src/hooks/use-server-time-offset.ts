@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+// Clocks drift, so the offset is measured again every few minutes.
+const RESYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Milliseconds to add to Date.now() to get the database's clock, measured
+ * with a round trip to server_now() and halving the latency. Stays 0 until
+ * the first measurement succeeds.
+ */
+export function useServerTimeOffset() {
+  const [offset, setOffset] = useState(0);
+
+  useEffect(() => {
+    const sb = supabase;
+    if (!sb) return;
+    let isMounted = true;
+
+    const measure = async () => {
+      const requestedAt = Date.now();
+      const { data, error } = await sb.rpc("server_now");
+      const receivedAt = Date.now();
+      if (!isMounted) return;
+      if (error || typeof data !== "string") {
+        console.warn("Failed to read the server clock:", error);
+        return;
+      }
+      setOffset(Date.parse(data) - (requestedAt + receivedAt) / 2);
+    };
+
+    void measure();
+    const intervalId = setInterval(measure, RESYNC_INTERVAL_MS);
+    return () => {
+      isMounted = false;
+      clearInterval(intervalId);
+    };
+  }, []);
+
+  return offset;
+}
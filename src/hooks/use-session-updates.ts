@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Calls onUpdate with the new row whenever the session changes in the
+ * database, so controller pages stay in sync with changes made elsewhere
+ * (another tab, the HTTP control API, scheduled actions).
+ */
+export function useSessionUpdates(
+  sessionId: string | null,
+  onUpdate: (row: Record<string, unknown>) => void,
+) {
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    const sb = supabase;
+    if (!sb || !sessionId) return;
+    const channel = sb
+      .channel(`controller:${sessionId}`)
+      .on<Record<string, unknown>>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "sessions", filter: `id=eq.${sessionId}` },
+        (payload) => onUpdateRef.current(payload.new),
+      )
+      .subscribe();
+    return () => {
+      void sb.removeChannel(channel);
+    };
+  }, [sessionId]);
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  PRESENCE_HEARTBEAT_MS,
+  getPresenceChannelName,
+  isPresenceFresh,
+  observePresence,
+  parsePresenceState,
+  type ObservedSourcePresence,
+  type SourcePresence,
+} from "@/lib/presence";
+
+type AnnouncedState = Pick<SourcePresence, "imageUrl" | "isShowingFallback">;
+
+/**
+ * Announces this browser source on the session's presence channel: its
+ * viewport, what it is drawing and a heartbeat. Changes are announced right
+ * away; the heartbeat keeps lastSeenAt fresh in between.
+ */
+export function useSourcePresenceReporter(sessionId: string | null, state: AnnouncedState) {
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const isSubscribedRef = useRef(false);
+  const [clientId] = useState(() => crypto.randomUUID());
+
+  const announce = useCallback(() => {
+    const channel = channelRef.current;
+    if (!channel || !isSubscribedRef.current) return;
+    const presence: SourcePresence = {
+      clientId,
+      viewportWidth: window.innerWidth,
+      viewportHeight: window.innerHeight,
+      imageUrl: stateRef.current.imageUrl,
+      isShowingFallback: stateRef.current.isShowingFallback,
+      lastSeenAt: new Date().toISOString(),
+    };
+    channel.track(presence).catch((error) => console.warn("Failed to announce presence:", error));
+  }, [clientId]);
+
+  useEffect(() => {
+    const sb = supabase;
+    if (!sb || !sessionId) return;
+    const channel = sb.channel(getPresenceChannelName(sessionId), {
+      config: { presence: { key: clientId } },
+    });
+    channelRef.current = channel;
+    channel.subscribe((status) => {
+      isSubscribedRef.current = status === "SUBSCRIBED";
+      if (status === "SUBSCRIBED") announce();
+    });
+    const intervalId = setInterval(announce, PRESENCE_HEARTBEAT_MS);
+    window.addEventListener("resize", announce);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener("resize", announce);
+      channelRef.current = null;
+      isSubscribedRef.current = false;
+      void sb.removeChannel(channel);
+    };
+  }, [sessionId, clientId, announce]);
+
+  useEffect(() => {
+    announce();
+  }, [state.imageUrl, state.isShowingFallback, announce]);
+}
+
+/**
+ * The browser sources currently open for a session, for controller pages.
+ * Sources that stopped sending heartbeats are left out.
+ */
+export function useSourcePresence(sessionId: string | null) {
+  const [sources, setSources] = useState<ObservedSourcePresence[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const sb = supabase;
+    setSources([]);
+    if (!sb || !sessionId) return;
+    const channel = sb.channel(getPresenceChannelName(sessionId));
+    channel
+      .on("presence", { event: "sync" }, () =>
+        setSources((current) => observePresence(parsePresenceState(channel.presenceState()), current, Date.now())),
+      )
+      .subscribe();
+    return () => {
+      void sb.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  // Re-evaluate staleness even when no presence events arrive.
+  useEffect(() => {
+    if (!sessionId) return;
+    const intervalId = setInterval(() => setNow(Date.now()), PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(intervalId);
+  }, [sessionId]);
+
+  return sources.filter((source) => isPresenceFresh(source, now));
+}
@@ -0,0 +1,110 @@
+import type { CSSProperties } from "react";
+import { LAYOUT_ANCHORS, type LayoutAnchor } from "@/lib/layout";
+import { pick, toInteger } from "@/lib/parse-values";
+
+export const CAPTION_FONTS = {
+  sans: { label: "Sans serif", family: "Inter, ui-sans-serif, system-ui, sans-serif" },
+  serif: { label: "Serif", family: "Georgia, 'Times New Roman', serif" },
+  display: { label: "Display", family: "Impact, 'Arial Black', sans-serif" },
+  mono: { label: "Monospace", family: "ui-monospace, 'Cascadia Code', monospace" },
+} as const;
+
+export const CAPTION_PLACEMENTS = LAYOUT_ANCHORS.filter(
+  (anchor): anchor is Exclude<LayoutAnchor, "custom"> => anchor !== "custom",
+);
+
+export type CaptionFont = keyof typeof CAPTION_FONTS;
+export type CaptionPlacement = (typeof CAPTION_PLACEMENTS)[number];
+
+/** Text drawn on the browser source; it reveals together with the main image. */
+export interface CaptionSettings {
+  title: string;
+  subtitle: string;
+  body: string;
+  font: CaptionFont;
+  /** Title size in canvas pixels; subtitle and body scale from it. */
+  fontSize: number;
+  color: string;
+  outlineColor: string;
+  /** 0 disables the outline. */
+  outlineWidth: number;
+  shadow: boolean;
+  placement: CaptionPlacement;
+  /** Distance from the canvas edge in pixels. */
+  margin: number;
+}
+
+export const DEFAULT_CAPTION: CaptionSettings = {
+  title: "",
+  subtitle: "",
+  body: "",
+  font: "sans",
+  fontSize: 64,
+  color: "#ffffff",
+  outlineColor: "#000000",
+  outlineWidth: 0,
+  shadow: true,
+  placement: "bottom",
+  margin: 48,
+};
+
+const hexColorPattern = /^#[0-9a-f]{6}$/i;
+
+const toText = (value: unknown) => (typeof value === "string" ? value : "");
+
+const toColor = (value: unknown, fallback: string) =>
+  typeof value === "string" && hexColorPattern.test(value) ? value : fallback;
+
+export const parseCaption = (value: unknown): CaptionSettings => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return {
+    title: toText(raw.title),
+    subtitle: toText(raw.subtitle),
+    body: toText(raw.body),
+    font: (raw.font as string) in CAPTION_FONTS ? (raw.font as CaptionFont) : DEFAULT_CAPTION.font,
+    fontSize: toInteger(raw.fontSize, DEFAULT_CAPTION.fontSize, 8, 400),
+    color: toColor(raw.color, DEFAULT_CAPTION.color),
+    outlineColor: toColor(raw.outlineColor, DEFAULT_CAPTION.outlineColor),
+    outlineWidth: toInteger(raw.outlineWidth, DEFAULT_CAPTION.outlineWidth, 0, 20),
+    shadow: typeof raw.shadow === "boolean" ? raw.shadow : DEFAULT_CAPTION.shadow,
+    placement: pick(CAPTION_PLACEMENTS, raw.placement, DEFAULT_CAPTION.placement),
+    margin: toInteger(raw.margin, DEFAULT_CAPTION.margin, 0, 2000),
+  };
+};
+
+export const hasCaptionText = (caption: CaptionSettings) =>
+  Boolean(caption.title.trim() || caption.subtitle.trim() || caption.body.trim());
+
+const flexPosition = (placement: CaptionPlacement) => {
+  const horizontal = placement.endsWith("left") ? "flex-start" : placement.endsWith("right") ? "flex-end" : "center";
+  const vertical = placement.startsWith("top") ? "flex-start" : placement.startsWith("bottom") ? "flex-end" : "center";
+  return { horizontal, vertical };
+};
+
+/** Styles for the full-canvas caption container and its text block. */
+export const getCaptionStyles = (caption: CaptionSettings): { area: CSSProperties; text: CSSProperties } => {
+  const { horizontal, vertical } = flexPosition(caption.placement);
+  return {
+    area: {
+      position: "absolute",
+      inset: caption.margin,
+      display: "flex",
+      justifyContent: horizontal,
+      alignItems: vertical,
+    },
+    text: {
+      fontFamily: CAPTION_FONTS[caption.font].family,
+      fontSize: caption.fontSize,
+      lineHeight: 1.15,
+      color: caption.color,
+      textAlign: horizontal === "flex-start" ? "left" : horizontal === "flex-end" ? "right" : "center",
+      WebkitTextStroke: caption.outlineWidth
+        ? `${caption.outlineWidth}px ${caption.outlineColor}`
+        : undefined,
+      // Draw the stroke behind the fill so it reads as an outline, not a thinner glyph.
+      paintOrder: "stroke fill",
+      textShadow: caption.shadow ? "0 4px 12px rgba(0, 0, 0, 0.75)" : undefined,
+      whiteSpace: "pre-line",
+    },
+  };
+};
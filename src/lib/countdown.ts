@@ -0,0 +1,29 @@
+import { CAPTION_PLACEMENTS, type CaptionPlacement } from "@/lib/caption";
+import { pick, toInteger } from "@/lib/parse-values";
+
+/** A "Card reveal in 0:10" style overlay shown before a scheduled reveal. */
+export interface CountdownSettings {
+  enabled: boolean;
+  /** Text before the remaining time. */
+  label: string;
+  placement: CaptionPlacement;
+  /** Canvas pixels; font, colour and outline come from the caption. */
+  fontSize: number;
+}
+
+export const DEFAULT_COUNTDOWN: CountdownSettings = {
+  enabled: false,
+  label: "Reveal in",
+  placement: "center",
+  fontSize: 96,
+};
+
+export const parseCountdown = (value: unknown): CountdownSettings => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return {
+    enabled: raw.enabled === true,
+    label: typeof raw.label === "string" ? raw.label : DEFAULT_COUNTDOWN.label,
+    placement: pick(CAPTION_PLACEMENTS, raw.placement, DEFAULT_COUNTDOWN.placement),
+    fontSize: toInteger(raw.fontSize, DEFAULT_COUNTDOWN.fontSize, 8, 400),
+  };
+};
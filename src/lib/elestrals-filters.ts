@@ -0,0 +1,52 @@
+// Client-side shapes of the filters and facets in server/elestrals/facets.ts.
+export type ElestralsFacetKey = "element" | "type" | "rarity" | "set" | "variant" | "cost";
+
+export interface ElestralsFacetCount {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export type ElestralsFacets = Partial<Record<ElestralsFacetKey, ElestralsFacetCount[]>>;
+
+export interface ElestralsFilters {
+  element: string[];
+  type: string[];
+  rarity: string[];
+  set: string[];
+  variant: string[];
+  costMin?: number;
+  costMax?: number;
+}
+
+export type ListFacetKey = Exclude<ElestralsFacetKey, "cost">;
+
+export const EMPTY_ELESTRALS_FILTERS: ElestralsFilters = {
+  element: [],
+  type: [],
+  rarity: [],
+  set: [],
+  variant: [],
+};
+
+export const LIST_FACETS: { key: ListFacetKey; label: string }[] = [
+  { key: "element", label: "Element" },
+  { key: "type", label: "Type" },
+  { key: "rarity", label: "Rarity" },
+  { key: "set", label: "Set" },
+  { key: "variant", label: "Printing" },
+];
+
+/** Adds the filters to search params the way /api/elestrals/search reads them. */
+export const appendElestralsFilters = (params: URLSearchParams, filters: ElestralsFilters) => {
+  for (const { key } of LIST_FACETS) {
+    if (filters[key].length) params.set(key, filters[key].join(","));
+  }
+  if (filters.costMin !== undefined) params.set("costMin", `${filters.costMin}`);
+  if (filters.costMax !== undefined) params.set("costMax", `${filters.costMax}`);
+};
+
+export const hasElestralsFilters = (filters: ElestralsFilters) =>
+  LIST_FACETS.some(({ key }) => filters[key].length > 0) ||
+  filters.costMin !== undefined ||
+  filters.costMax !== undefined;
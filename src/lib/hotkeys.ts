@@ -0,0 +1,82 @@
+export const HOTKEY_ACTIONS = {
+  toggleReveal: "Reveal / hide",
+  next: "Next item",
+  previous: "Previous item",
+  changeImage: "Change image",
+  copyUrl: "Copy source URL",
+} as const;
+
+export type HotkeyAction = keyof typeof HOTKEY_ACTIONS;
+
+/** Key combos such as "R" or "Shift+ArrowRight", one per action. */
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  toggleReveal: "R",
+  next: "ArrowRight",
+  previous: "ArrowLeft",
+  changeImage: "C",
+  copyUrl: "U",
+};
+
+const STORAGE_KEY = "image-source-hotkeys";
+
+const modifierKeys = ["Control", "Alt", "Shift", "Meta"];
+
+const keyLabels: Record<string, string> = {
+  " ": "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+/**
+ * Turns a keydown into the combo string stored in the bindings, or null for
+ * a bare modifier press. Letters are upper-cased so Shift doesn't change them.
+ */
+export const getEventHotkey = (event: KeyboardEvent): string | null => {
+  if (modifierKeys.includes(event.key)) return null;
+  const key = event.key === " " ? "Space" : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  return [event.ctrlKey && "Ctrl", event.altKey && "Alt", event.shiftKey && "Shift", event.metaKey && "Meta", key]
+    .filter(Boolean)
+    .join("+");
+};
+
+export const formatHotkey = (hotkey: string) =>
+  hotkey
+    .split("+")
+    .map((part) => keyLabels[part] ?? part)
+    .join(" + ");
+
+/** Hotkeys stay quiet while the operator is typing into a field. */
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export const parseHotkeys = (value: unknown): HotkeyBindings => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return Object.fromEntries(
+    (Object.keys(HOTKEY_ACTIONS) as HotkeyAction[]).map((action) => [
+      action,
+      typeof raw[action] === "string" ? (raw[action] as string) : DEFAULT_HOTKEYS[action],
+    ]),
+  ) as HotkeyBindings;
+};
+
+export const loadHotkeys = (): HotkeyBindings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return parseHotkeys(stored ? JSON.parse(stored) : null);
+  } catch {
+    return DEFAULT_HOTKEYS;
+  }
+};
+
+export const saveHotkeys = (bindings: HotkeyBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn("Failed to save hotkeys:", error);
+  }
+};
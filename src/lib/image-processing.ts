@@ -0,0 +1,133 @@
+import type { OutputFormat, UploadSettings } from "@/lib/upload-settings";
+
+export interface ProcessImageOptions {
+  settings: UploadSettings;
+  /** Canvas size to downscale to when settings.downscaleToCanvas is on. */
+  targetWidth?: number;
+  targetHeight?: number;
+}
+
+export type ProcessImageResult = { file: File; error: null } | { file: null; error: string };
+
+const mimeTypes: Record<Exclude<OutputFormat, "original">, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+};
+
+const extensions: Record<string, string> = {
+  "image/avif": "avif",
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+};
+
+// Only the start of the file is needed to spot animation chunks.
+const ANIMATION_SNIFF_BYTES = 64 * 1024;
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const includesAscii = (bytes: Uint8Array, text: string) => {
+  const codes = Array.from(text, (char) => char.charCodeAt(0));
+  for (let index = 0; index <= bytes.length - codes.length; index += 1) {
+    if (codes.every((code, offset) => bytes[index + offset] === code)) return true;
+  }
+  return false;
+};
+
+/**
+ * Re-encoding through a canvas keeps only the first frame, so animated GIF,
+ * APNG (acTL chunk) and animated WebP (ANIM chunk) are uploaded untouched.
+ * SVG is left alone because rasterising it would lose its scalability.
+ */
+const shouldKeepOriginal = async (file: File) => {
+  if (file.type === "image/gif" || file.type === "image/svg+xml") return true;
+  if (file.type !== "image/png" && file.type !== "image/webp") return false;
+  const header = new Uint8Array(await file.slice(0, ANIMATION_SNIFF_BYTES).arrayBuffer());
+  return includesAscii(header, file.type === "image/png" ? "acTL" : "ANIM");
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Encodes the canvas in the first supported format. Browsers that can't
+ * encode a type silently return PNG, so the blob's type is checked.
+ */
+const encodeCanvas = async (canvas: HTMLCanvasElement, types: string[], quality: number) => {
+  for (const type of types) {
+    const blob = await canvasToBlob(canvas, type, quality);
+    if (blob && blob.type === type) return blob;
+  }
+  return null;
+};
+
+const renameFile = (name: string, type: string) => {
+  const base = name.replace(/\.[^./]+$/, "") || "image";
+  return `${base}.${extensions[type] ?? "img"}`;
+};
+
+/**
+ * Validates an image against the upload settings, downscales it to the
+ * target canvas and re-encodes it. Drawing through a canvas also drops EXIF
+ * and GPS metadata; orientation is applied first so photos stay upright.
+ */
+export async function processImage(file: File, options: ProcessImageOptions): Promise<ProcessImageResult> {
+  const { settings, targetWidth, targetHeight } = options;
+  const maxBytes = settings.maxFileSizeMb * 1024 * 1024;
+  if (file.size > maxBytes) {
+    return {
+      file: null,
+      error: `The file is ${formatMegabytes(file.size)}; the limit is ${settings.maxFileSizeMb} MB.`,
+    };
+  }
+  if (!file.type.startsWith("image/") || (await shouldKeepOriginal(file))) {
+    return { file, error: null };
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    return { file: null, error: "The image could not be read. It may be corrupt or in an unsupported format." };
+  }
+
+  try {
+    if (bitmap.width > settings.maxDimension || bitmap.height > settings.maxDimension) {
+      return {
+        file: null,
+        error: `The image is ${bitmap.width}×${bitmap.height}; the limit is ${settings.maxDimension} pixels per side.`,
+      };
+    }
+
+    const scale =
+      settings.downscaleToCanvas && targetWidth && targetHeight
+        ? Math.min(1, targetWidth / bitmap.width, targetHeight / bitmap.height)
+        : 1;
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return { file: null, error: "Your browser could not process the image." };
+    }
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // JPEG has no alpha channel, so sources that may be transparent fall back to PNG.
+    const lastResort = file.type === "image/jpeg" ? "image/jpeg" : "image/png";
+    const preferred =
+      settings.format === "original"
+        ? [file.type, lastResort]
+        : [...(settings.format === "avif" ? [mimeTypes.avif] : []), mimeTypes.webp, lastResort];
+    const blob = await encodeCanvas(canvas, [...new Set(preferred)], settings.quality);
+    if (!blob) {
+      return { file: null, error: "Your browser could not encode the image." };
+    }
+    return {
+      file: new File([blob], renameFile(file.name, blob.type), { type: blob.type, lastModified: Date.now() }),
+      error: null,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,75 @@
+import { DEFAULT_LAYOUT, parseLayout, type LayoutSettings } from "@/lib/layout";
+import { parseMediaType, type MediaType } from "@/lib/media";
+import { DEFAULT_TRANSITION, parseTransition, type TransitionSettings } from "@/lib/transitions";
+
+/**
+ * An extra image drawn on the same browser source as the session's main
+ * image (sponsor logos, lower thirds, ...). The main image always sits at
+ * z-order 0; layers with a higher zIndex are drawn above it, lower below.
+ */
+export interface SessionLayer {
+  id: string;
+  name: string;
+  url: string;
+  mediaType: MediaType;
+  isRevealed: boolean;
+  zIndex: number;
+  layout: LayoutSettings;
+  transition: TransitionSettings;
+}
+
+export const MAIN_LAYER_Z_INDEX = 0;
+
+export const parseLayers = (value: unknown): SessionLayer[] =>
+  Array.isArray(value)
+    ? value
+        .filter((raw): raw is Record<string, unknown> => Boolean(raw) && typeof raw === "object")
+        .filter((raw) => typeof raw.id === "string" && typeof raw.url === "string")
+        .map((raw, index) => ({
+          id: raw.id as string,
+          name: typeof raw.name === "string" && raw.name.trim() ? raw.name : `Layer ${index + 1}`,
+          url: raw.url as string,
+          mediaType: parseMediaType(raw.mediaType),
+          isRevealed: raw.isRevealed === true,
+          zIndex: Number.isFinite(Number(raw.zIndex)) ? Math.round(Number(raw.zIndex)) : index + 1,
+          layout: parseLayout(raw.layout),
+          transition: parseTransition(raw.transition),
+        }))
+    : [];
+
+export const createLayer = (
+  url: string,
+  existing: SessionLayer[],
+  mediaType: MediaType = "image",
+): SessionLayer => ({
+  id: crypto.randomUUID(),
+  name: `Layer ${existing.length + 1}`,
+  url,
+  mediaType,
+  isRevealed: false,
+  zIndex: Math.max(MAIN_LAYER_Z_INDEX, ...existing.map((layer) => layer.zIndex)) + 1,
+  layout: DEFAULT_LAYOUT,
+  transition: DEFAULT_TRANSITION,
+});
+
+export const sortLayers = (layers: SessionLayer[]) => [...layers].sort((a, b) => a.zIndex - b.zIndex);
+
+/**
+ * Moves a layer one step up or down the stack, stepping over the main image
+ * as if it were a layer, then renumbers so the main image stays at 0.
+ */
+export const moveLayer = (layers: SessionLayer[], layerId: string, direction: "up" | "down") => {
+  const sorted = sortLayers(layers);
+  const stack: (SessionLayer | null)[] = [...sorted];
+  stack.splice(sorted.filter((layer) => layer.zIndex < MAIN_LAYER_Z_INDEX).length, 0, null);
+
+  const from = stack.findIndex((layer) => layer?.id === layerId);
+  const to = direction === "up" ? from + 1 : from - 1;
+  if (from < 0 || to < 0 || to >= stack.length) return layers;
+  [stack[from], stack[to]] = [stack[to], stack[from]];
+
+  const mainIndex = stack.indexOf(null);
+  return stack.flatMap((layer, index) =>
+    layer ? [{ ...layer, zIndex: MAIN_LAYER_Z_INDEX + index - mainIndex }] : [],
+  );
+};
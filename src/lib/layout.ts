@@ -0,0 +1,141 @@
+import type { CSSProperties } from "react";
+import { pick, toInteger } from "@/lib/parse-values";
+
+export const LAYOUT_ANCHORS = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+  "custom",
+] as const;
+export const LAYOUT_FITS = ["scale-down", "contain", "cover", "fill", "native"] as const;
+
+export type LayoutAnchor = (typeof LAYOUT_ANCHORS)[number];
+export type LayoutFit = (typeof LAYOUT_FITS)[number];
+
+/** Placement of the overlay image. All lengths are canvas pixels. */
+export interface LayoutSettings {
+  anchor: LayoutAnchor;
+  /** Offset of the image's top-left corner; only used by the custom anchor. */
+  x: number;
+  y: number;
+  fit: LayoutFit;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  padding: number;
+  /** Size of the OBS canvas, used to scale the controller preview. */
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+export const DEFAULT_LAYOUT: LayoutSettings = {
+  anchor: "center",
+  x: 0,
+  y: 0,
+  fit: "scale-down",
+  maxWidth: null,
+  maxHeight: null,
+  padding: 16,
+  canvasWidth: 1920,
+  canvasHeight: 1080,
+};
+
+const MAX_CANVAS_SIZE = 7680;
+
+const toPixels = (value: unknown, fallback: number) => toInteger(value, fallback, 0, MAX_CANVAS_SIZE);
+
+const toOptionalPixels = (value: unknown) => {
+  const pixels = toPixels(value, 0);
+  return pixels > 0 ? pixels : null;
+};
+
+export const parseLayout = (value: unknown): LayoutSettings => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return {
+    anchor: pick(LAYOUT_ANCHORS, raw.anchor, DEFAULT_LAYOUT.anchor),
+    x: toPixels(raw.x, DEFAULT_LAYOUT.x),
+    y: toPixels(raw.y, DEFAULT_LAYOUT.y),
+    fit: pick(LAYOUT_FITS, raw.fit, DEFAULT_LAYOUT.fit),
+    maxWidth: toOptionalPixels(raw.maxWidth),
+    maxHeight: toOptionalPixels(raw.maxHeight),
+    padding: toPixels(raw.padding, DEFAULT_LAYOUT.padding),
+    canvasWidth: toPixels(raw.canvasWidth, DEFAULT_LAYOUT.canvasWidth) || DEFAULT_LAYOUT.canvasWidth,
+    canvasHeight: toPixels(raw.canvasHeight, DEFAULT_LAYOUT.canvasHeight) || DEFAULT_LAYOUT.canvasHeight,
+  };
+};
+
+type Edge = "start" | "center" | "end";
+
+const anchorEdges = (anchor: LayoutAnchor): { horizontal: Edge; vertical: Edge } => {
+  const horizontal: Edge = anchor.endsWith("left") ? "start" : anchor.endsWith("right") ? "end" : "center";
+  const vertical: Edge = anchor.startsWith("top") ? "start" : anchor.startsWith("bottom") ? "end" : "center";
+  return { horizontal, vertical };
+};
+
+const edgePosition = (edge: Edge, start: string, end: string) =>
+  edge === "start" ? start : edge === "end" ? end : "center";
+
+/** Insets an absolutely positioned box so it sits against the anchored edges. */
+const edgeInsets = (edge: Edge, startKey: "left" | "top", endKey: "right" | "bottom"): CSSProperties =>
+  edge === "start"
+    ? { [startKey]: 0 }
+    : edge === "end"
+      ? { [endKey]: 0 }
+      : { [startKey]: 0, [endKey]: 0 };
+
+/**
+ * Styles for the padded area that holds the image and for the image itself.
+ * Images are absolutely positioned inside the area so that an outgoing and an
+ * incoming image can overlap while they transition.
+ */
+export const getLayoutStyles = (layout: LayoutSettings): { area: CSSProperties; image: CSSProperties } => {
+  const area: CSSProperties = { position: "absolute", inset: layout.padding };
+
+  if (layout.anchor === "custom") {
+    return {
+      area,
+      image: {
+        position: "absolute",
+        left: layout.x,
+        top: layout.y,
+        width: layout.maxWidth ?? "auto",
+        height: layout.maxHeight ?? "auto",
+        objectFit: layout.fit === "native" ? "none" : layout.fit,
+        objectPosition: "left top",
+      },
+    };
+  }
+
+  const { horizontal, vertical } = anchorEdges(layout.anchor);
+  const position: CSSProperties = {
+    position: "absolute",
+    margin: "auto",
+    ...edgeInsets(horizontal, "left", "right"),
+    ...edgeInsets(vertical, "top", "bottom"),
+  };
+  const objectPosition = `${edgePosition(horizontal, "left", "right")} ${edgePosition(vertical, "top", "bottom")}`;
+  const maxWidth = layout.maxWidth ? `min(100%, ${layout.maxWidth}px)` : "100%";
+  const maxHeight = layout.maxHeight ? `min(100%, ${layout.maxHeight}px)` : "100%";
+
+  if (layout.fit === "native") {
+    return { area, image: { ...position, width: "auto", height: "auto" } };
+  }
+
+  if (layout.fit === "scale-down") {
+    // Intrinsic size, shrunk only when it doesn't fit.
+    return {
+      area,
+      image: { ...position, width: "auto", height: "auto", maxWidth, maxHeight, objectFit: "contain" },
+    };
+  }
+
+  return {
+    area,
+    image: { ...position, width: maxWidth, height: maxHeight, objectFit: layout.fit, objectPosition },
+  };
+};
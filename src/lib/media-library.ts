@@ -0,0 +1,191 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { parseMediaType, type MediaType } from "@/lib/media";
+
+export const LIBRARY_TOKEN_HEADER = "x-media-library-token";
+
+// The library token is this browser's identity for its uploads; losing it
+// (clearing site data) hides the library but leaves the files in storage.
+const STORAGE_KEY = "image-source-media-library-token";
+
+export interface LibraryItem {
+  id: string;
+  name: string;
+  url: string;
+  storagePath: string;
+  mediaType: MediaType;
+  tags: string[];
+  createdAt: string;
+}
+
+export interface NewLibraryItem {
+  name: string;
+  url: string;
+  storagePath: string;
+  mediaType: MediaType;
+  sizeBytes: number;
+}
+
+interface LibraryItemRow {
+  id: string;
+  name: string;
+  public_url: string;
+  storage_path: string;
+  media_type: string | null;
+  tags: string[] | null;
+  created_at: string;
+}
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+let libraryToken: string | null = null;
+
+/** Reads this browser's library token, creating one on first use. */
+export const getLibraryToken = () => {
+  if (libraryToken) return libraryToken;
+  try {
+    libraryToken = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    libraryToken = null;
+  }
+  if (!libraryToken) {
+    libraryToken = Array.from(crypto.getRandomValues(new Uint8Array(24)), (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("");
+    try {
+      localStorage.setItem(STORAGE_KEY, libraryToken);
+    } catch (error) {
+      console.warn("Failed to save media library token:", error);
+    }
+  }
+  return libraryToken;
+};
+
+/** Splits comma-separated input into lowercase, de-duplicated tags. */
+export const parseTags = (input: string) =>
+  [
+    ...new Set(
+      input
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+        .filter(Boolean),
+    ),
+  ].slice(0, MAX_TAGS);
+
+/** True when every word of the query appears in the item's name or tags. */
+export const matchesLibrarySearch = (item: LibraryItem, query: string) => {
+  const haystack = [item.name, ...item.tags].join(" ").toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+};
+
+const toLibraryItem = (row: LibraryItemRow): LibraryItem => ({
+  id: row.id,
+  name: row.name,
+  url: row.public_url,
+  storagePath: row.storage_path,
+  mediaType: parseMediaType(row.media_type),
+  tags: row.tags ?? [],
+  createdAt: row.created_at,
+});
+
+export async function listLibraryItems(
+  client: SupabaseClient,
+): Promise<{ items: LibraryItem[]; error: Error | null }> {
+  const { data, error } = await client
+    .from("media_library")
+    .select("id, name, public_url, storage_path, media_type, tags, created_at")
+    .order("created_at", { ascending: false })
+    .setHeader(LIBRARY_TOKEN_HEADER, getLibraryToken());
+  if (error) return { items: [], error };
+  return { items: (data as LibraryItemRow[]).map(toLibraryItem), error: null };
+}
+
+/**
+ * Records an upload in the library. Uploading the same content again is a
+ * no-op, so the original name and tags are kept.
+ */
+export async function addLibraryItem(
+  client: SupabaseClient,
+  item: NewLibraryItem,
+): Promise<{ error: Error | null }> {
+  const { error } = await client
+    .from("media_library")
+    .upsert(
+      {
+        name: item.name,
+        public_url: item.url,
+        storage_path: item.storagePath,
+        media_type: item.mediaType,
+        size_bytes: item.sizeBytes,
+      },
+      { onConflict: "owner_hash,storage_path", ignoreDuplicates: true },
+    )
+    .setHeader(LIBRARY_TOKEN_HEADER, getLibraryToken());
+  return { error };
+}
+
+export async function updateLibraryTags(
+  client: SupabaseClient,
+  item: LibraryItem,
+  tags: string[],
+): Promise<{ error: Error | null }> {
+  const { error } = await client
+    .from("media_library")
+    .update({ tags })
+    .eq("id", item.id)
+    .setHeader(LIBRARY_TOKEN_HEADER, getLibraryToken());
+  return { error };
+}
+
+interface DeletePayload {
+  ok?: boolean;
+  removeError?: string | null;
+  error?: string;
+}
+
+/**
+ * Removes an item from the library, and its file from storage unless another
+ * library or any session (image, fallback, playlist or layer) still uses it.
+ * The file can only be removed by /api/media/delete, since the bucket allows
+ * no anonymous deletes; without the route (static hosting) the row is deleted
+ * here and the file stays. removeError is set whenever the row is gone but the
+ * file was not removed.
+ */
+export async function deleteLibraryItem(
+  client: SupabaseClient,
+  item: LibraryItem,
+): Promise<{ error: Error | null; removeError: Error | null }> {
+  let response: Response | null = null;
+  try {
+    response = await fetch("/api/media/delete", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [LIBRARY_TOKEN_HEADER]: getLibraryToken() },
+      body: JSON.stringify({ id: item.id }),
+    });
+  } catch {
+    response = null;
+  }
+
+  if (response && (response.headers.get("content-type") ?? "").includes("application/json")) {
+    const payload = (await response.json().catch(() => null)) as DeletePayload | null;
+    if (!response.ok || !payload?.ok) {
+      return {
+        error: new Error(payload?.error ?? `Could not delete the item (status ${response.status}).`),
+        removeError: null,
+      };
+    }
+    return { error: null, removeError: payload.removeError ? new Error(payload.removeError) : null };
+  }
+
+  const { data, error } = await client
+    .rpc("delete_media_library_item", { item_id: item.id })
+    .setHeader(LIBRARY_TOKEN_HEADER, getLibraryToken());
+  if (error) return { error, removeError: null };
+  const [deleted] = (data ?? []) as { storage_path: string; is_shared: boolean }[];
+  if (!deleted || deleted.is_shared) return { error: null, removeError: null };
+  return { error: null, removeError: new Error("/api/media/delete isn't deployed, so files can't be removed.") };
+}
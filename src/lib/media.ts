@@ -0,0 +1,110 @@
+// Also imported by server/ (by relative path), so no "@/" imports here.
+
+export type MediaType = "image" | "video";
+
+/** Playback options for video media; images ignore them. */
+export interface MediaOptions {
+  loop: boolean;
+  muted: boolean;
+  /** Hide the media once it has played through (ignored while looping). */
+  hideOnEnd: boolean;
+  /** Start from the beginning every time the media is revealed. */
+  restartOnReveal: boolean;
+}
+
+export const DEFAULT_MEDIA_OPTIONS: MediaOptions = {
+  loop: true,
+  muted: true,
+  hideOnEnd: false,
+  restartOnReveal: true,
+};
+
+// Animated GIF, WebP and APNG play natively in <img>, so only real video
+// containers need the <video> element.
+export const SUPPORTED_VIDEO_TYPES = ["video/mp4", "video/webm"];
+
+export const MEDIA_ACCEPT = ["image/*", ...SUPPORTED_VIDEO_TYPES].join(",");
+
+const videoExtensionPattern = /\.(mp4|m4v|webm)$/i;
+const imageExtensionPattern = /\.(png|jpe?g|gif|webp|apng|avif|svg|bmp)$/i;
+
+export const parseMediaType = (value: unknown): MediaType => (value === "video" ? "video" : "image");
+
+export const parseMediaOptions = (value: unknown): MediaOptions => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const flag = (key: keyof MediaOptions) =>
+    typeof raw[key] === "boolean" ? (raw[key] as boolean) : DEFAULT_MEDIA_OPTIONS[key];
+  return {
+    loop: flag("loop"),
+    muted: flag("muted"),
+    hideOnEnd: flag("hideOnEnd"),
+    restartOnReveal: flag("restartOnReveal"),
+  };
+};
+
+export const getFileMediaType = (file: File): MediaType | null => {
+  if (file.type.startsWith("image/")) return "image";
+  if (SUPPORTED_VIDEO_TYPES.includes(file.type)) return "video";
+  return null;
+};
+
+export const getUrlExtensionMediaType = (url: string): MediaType | null => {
+  try {
+    const { pathname } = new URL(url);
+    if (videoExtensionPattern.test(pathname)) return "video";
+    if (imageExtensionPattern.test(pathname)) return "image";
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Guesses whether a URL points at a video. The file extension decides when it
+ * can; otherwise a HEAD request checks the content type. Hosts that block the
+ * request (CORS) are treated as images, which was the only option before.
+ */
+export async function detectMediaType(url: string): Promise<MediaType> {
+  const fromExtension = getUrlExtensionMediaType(url);
+  if (fromExtension) return fromExtension;
+  try {
+    const response = await fetch(url, { method: "HEAD" });
+    const contentType = response.headers.get("content-type") ?? "";
+    return contentType.startsWith("video/") ? "video" : "image";
+  } catch {
+    return "image";
+  }
+}
+
+/** A file or link dropped onto or pasted into the page. */
+export type TransferredMedia = { file: File; url: null } | { file: null; url: string };
+
+const toHttpUrl = (value: string | null | undefined) => {
+  const candidate = value?.trim().split(/\r?\n/).find((line) => line && !line.startsWith("#"));
+  if (!candidate) return null;
+  try {
+    const url = new URL(candidate);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Picks the media out of a drag or clipboard payload: a file when there is
+ * one (screenshots arrive as image/png files), otherwise a link. Images
+ * dragged from another tab carry their address in the uri-list or, failing
+ * that, in an <img> tag in the HTML flavour.
+ */
+export const readTransferredMedia = (data: DataTransfer | null): TransferredMedia | null => {
+  if (!data) return null;
+  // An unsupported file is still returned so the caller can say why it was refused.
+  const file = Array.from(data.files).find((candidate) => getFileMediaType(candidate)) ?? data.files[0];
+  if (file) return { file, url: null };
+  const html = data.getData("text/html");
+  const url =
+    toHttpUrl(data.getData("text/uri-list")) ??
+    toHttpUrl(html ? new DOMParser().parseFromString(html, "text/html").querySelector("img")?.src : null) ??
+    toHttpUrl(data.getData("text/plain"));
+  return url ? { file: null, url } : null;
+};
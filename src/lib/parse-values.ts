@@ -0,0 +1,16 @@
+// Helpers for the parseX functions that turn stored JSON (session columns,
+// localStorage) into settings, falling back to defaults on anything unexpected.
+
+/** Returns the value when it is one of the options, otherwise the fallback. */
+export const pick = <T extends string>(options: readonly T[], value: unknown, fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+/** Reads a number and clamps it to [min, max]; null, "" and non-numbers give the fallback. */
+export const toNumber = (value: unknown, fallback: number, min: number, max: number) => {
+  const number = Number(value);
+  return value !== null && value !== "" && Number.isFinite(number) ? Math.min(Math.max(number, min), max) : fallback;
+};
+
+/** Like toNumber, rounded to a whole number. */
+export const toInteger = (value: unknown, fallback: number, min: number, max: number) =>
+  Math.round(toNumber(value, fallback, min, max));
@@ -0,0 +1,60 @@
+/** What an open browser source reports about itself. */
+export interface SourcePresence {
+  clientId: string;
+  viewportWidth: number;
+  viewportHeight: number;
+  /** Media the source is drawing right now; null while it shows nothing. */
+  imageUrl: string | null;
+  /** The fallback is up because imageUrl failed to load. */
+  isShowingFallback: boolean;
+  /** Source's own clock; only used to tell a new heartbeat from a repeat. */
+  lastSeenAt: string;
+}
+
+/** A source as a controller sees it, stamped with the controller's clock. */
+export interface ObservedSourcePresence extends SourcePresence {
+  receivedAt: number;
+}
+
+// Presence drops a client as soon as its socket closes, but a frozen OBS
+// browser can keep the socket alive, so sources also re-announce themselves
+// and anything quiet for a few heartbeats is treated as gone.
+export const PRESENCE_HEARTBEAT_MS = 15000;
+export const PRESENCE_STALE_MS = PRESENCE_HEARTBEAT_MS * 3;
+
+export const getPresenceChannelName = (sessionId: string) => `presence:${sessionId}`;
+
+const isSourcePresence = (value: unknown): value is SourcePresence =>
+  Boolean(value) &&
+  typeof (value as SourcePresence).clientId === "string" &&
+  typeof (value as SourcePresence).lastSeenAt === "string";
+
+/**
+ * Flattens a Realtime presence state into one entry per source, keeping the
+ * latest announcement for each client.
+ */
+export const parsePresenceState = (state: Record<string, unknown[]>): SourcePresence[] =>
+  Object.values(state).flatMap((entries) => {
+    const latest = entries
+      .filter(isSourcePresence)
+      .sort((a, b) => Date.parse(b.lastSeenAt) - Date.parse(a.lastSeenAt))[0];
+    return latest ? [latest] : [];
+  });
+
+/**
+ * Stamps each source with when this controller last heard a new heartbeat
+ * from it. Freshness is judged on that receipt time, because the source's own
+ * lastSeenAt comes from another machine's clock.
+ */
+export const observePresence = (
+  sources: SourcePresence[],
+  previous: ObservedSourcePresence[],
+  now: number,
+): ObservedSourcePresence[] =>
+  sources.map((source) => {
+    const known = previous.find((entry) => entry.clientId === source.clientId);
+    return { ...source, receivedAt: known && known.lastSeenAt === source.lastSeenAt ? known.receivedAt : now };
+  });
+
+export const isPresenceFresh = (presence: ObservedSourcePresence, now: number) =>
+  now - presence.receivedAt < PRESENCE_STALE_MS;
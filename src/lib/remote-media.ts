@@ -0,0 +1,86 @@
+import { supabase } from "@/lib/supabaseClient";
+import { addLibraryItem } from "@/lib/media-library";
+import { detectMediaType, type MediaType } from "@/lib/media";
+import { CONTROL_TOKEN_HEADER } from "@/lib/session-shared";
+import type { SessionControl } from "@/lib/sessions";
+
+export interface CheckedMedia {
+  /** The cached copy when one was made, otherwise the link itself. */
+  url: string;
+  mediaType: MediaType;
+  width: number | null;
+  height: number | null;
+}
+
+interface InspectPayload {
+  media?: {
+    mediaType: MediaType;
+    width: number | null;
+    height: number | null;
+    cachedUrl: string | null;
+    storagePath: string | null;
+    bytes: number;
+  };
+  error?: string;
+}
+
+const nameFromUrl = (url: string) => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return decodeURIComponent(pathname.split("/").pop() ?? "") || hostname;
+  } catch {
+    return url;
+  }
+};
+
+/** Used when /api/media/inspect isn't deployed (static hosting), so links still work unchecked. */
+const uncheckedMedia = async (url: string) => ({
+  media: { url, mediaType: await detectMediaType(url), width: null, height: null },
+  error: null,
+});
+
+/**
+ * Asks /api/media/inspect whether a link really is an image or video before
+ * it goes on stream, optionally caching it in storage. Caching needs the
+ * session's control token, so links checked before a session exists are used
+ * as they are. Cached copies are added to the media library like uploads.
+ * Resolves to an error message fit to show the user when the link is unusable.
+ */
+export async function checkRemoteMedia(
+  url: string,
+  options: { cache?: boolean; session?: SessionControl | null } = {},
+): Promise<{ media: CheckedMedia | null; error: string | null }> {
+  const params = new URLSearchParams({ url });
+  const headers: Record<string, string> = {};
+  if (options.cache && options.session) {
+    params.set("cache", "1");
+    params.set("session", options.session.id);
+    headers[CONTROL_TOKEN_HEADER] = options.session.controlToken;
+  }
+  let response: Response;
+  try {
+    response = await fetch(`/api/media/inspect?${params.toString()}`, { headers });
+  } catch {
+    return uncheckedMedia(url);
+  }
+  if (!(response.headers.get("content-type") ?? "").includes("application/json")) {
+    return uncheckedMedia(url);
+  }
+  const payload = (await response.json().catch(() => null)) as InspectPayload | null;
+  if (!response.ok || !payload?.media) {
+    return { media: null, error: payload?.error ?? `Could not check that link (status ${response.status}).` };
+  }
+
+  const { mediaType, width, height, cachedUrl, storagePath, bytes } = payload.media;
+  if (cachedUrl && storagePath && supabase) {
+    const { error } = await addLibraryItem(supabase, {
+      name: nameFromUrl(url),
+      url: cachedUrl,
+      storagePath,
+      mediaType,
+      sizeBytes: bytes,
+    });
+    if (error) console.warn("Failed to add cached link to the media library:", error);
+  }
+  return { media: { url: cachedUrl ?? url, mediaType, width, height }, error: null };
+}
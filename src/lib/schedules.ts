@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ScheduledAction = "reveal" | "hide";
+
+/** Timed reveal state stored on the session row. */
+export interface SessionSchedule {
+  /** A one-off reveal or hide waiting for scheduledAt. */
+  scheduledAction: ScheduledAction | null;
+  scheduledAt: string | null;
+  /** Hide automatically this many seconds after every reveal. */
+  autoHideSeconds: number | null;
+  /** When the current reveal ends; set by the database on reveal. */
+  hideAt: string | null;
+  /** When the playlist moves to its next entry; set by the database. */
+  advanceAt: string | null;
+}
+
+export const EMPTY_SCHEDULE: SessionSchedule = {
+  scheduledAction: null,
+  scheduledAt: null,
+  autoHideSeconds: null,
+  hideAt: null,
+  advanceAt: null,
+};
+
+const toTimestamp = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value)) ? value : null;
+
+export const parseSchedule = (row: Record<string, unknown> | null | undefined): SessionSchedule => {
+  const scheduledAt = toTimestamp(row?.scheduled_at);
+  const scheduledAction =
+    scheduledAt && (row?.scheduled_action === "reveal" || row?.scheduled_action === "hide")
+      ? row.scheduled_action
+      : null;
+  const autoHideSeconds = Number(row?.auto_hide_seconds);
+  return {
+    scheduledAction,
+    scheduledAt: scheduledAction ? scheduledAt : null,
+    autoHideSeconds: Number.isInteger(autoHideSeconds) && autoHideSeconds > 0 ? autoHideSeconds : null,
+    hideAt: toTimestamp(row?.hide_at),
+    advanceAt: toTimestamp(row?.advance_at),
+  };
+};
+
+/** The next moment something should happen, in epoch milliseconds. */
+export const getNextDueTime = (schedule: SessionSchedule): number | null => {
+  const times = [schedule.scheduledAt, schedule.hideAt, schedule.advanceAt]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => Date.parse(value));
+  return times.length ? Math.min(...times) : null;
+};
+
+/** Formats a duration as m:ss, or h:mm:ss past an hour. */
+export const formatRemaining = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export async function applyDueSchedules(client: SupabaseClient, sessionId: string) {
+  const { error } = await client.rpc("apply_due_session_schedules", { target_session_id: sessionId });
+  if (error) {
+    console.error("Failed to apply scheduled actions:", error);
+  }
+}
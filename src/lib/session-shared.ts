@@ -0,0 +1,24 @@
+// Session helpers shared with the serverless routes in server/, which import
+// this file by relative path. Keep it free of "@/" imports and browser APIs.
+import { parseMediaType, type MediaType } from "./media";
+
+export const CONTROL_TOKEN_HEADER = "x-session-control-token";
+
+export interface PlaylistEntry {
+  url: string;
+  mediaType?: MediaType;
+}
+
+export const parsePlaylist = (value: unknown): PlaylistEntry[] =>
+  Array.isArray(value)
+    ? value
+        .filter(
+          (entry): entry is PlaylistEntry =>
+            Boolean(entry) && typeof (entry as PlaylistEntry).url === "string",
+        )
+        .map((entry) => ({ url: entry.url, mediaType: parseMediaType(entry.mediaType) }))
+    : [];
+
+/** Wraps an index into the playlist so next/previous loop around. */
+export const wrapPlaylistIndex = (index: number, length: number) =>
+  length ? ((index % length) + length) % length : 0;
@@ -0,0 +1,38 @@
+import type { SessionControl } from "@/lib/sessions";
+
+// Control tokens only exist in the browser that created the session, so the
+// list of "my sessions" lives in localStorage next to them.
+const STORAGE_KEY = "image-source-sessions";
+
+const isSessionControl = (value: unknown): value is SessionControl =>
+  Boolean(value) &&
+  typeof (value as SessionControl).id === "string" &&
+  typeof (value as SessionControl).controlToken === "string";
+
+export const loadStoredSessions = (): SessionControl[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored.filter(isSessionControl).map(({ id, controlToken }) => ({ id, controlToken }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveStoredSessions = (sessions: SessionControl[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.warn("Failed to save sessions:", error);
+  }
+};
+
+export const getStoredSession = (sessionId: string) =>
+  loadStoredSessions().find((session) => session.id === sessionId) ?? null;
+
+export const storeSession = (session: SessionControl) =>
+  saveStoredSessions([session, ...loadStoredSessions().filter((stored) => stored.id !== session.id)]);
+
+export const forgetSession = (sessionId: string) =>
+  saveStoredSessions(loadStoredSessions().filter((stored) => stored.id !== sessionId));
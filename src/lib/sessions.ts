@@ -0,0 +1,227 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { CONTROL_TOKEN_HEADER } from "@/lib/session-shared";
+import { forgetSession, getStoredSession, storeSession } from "@/lib/session-store";
+
+/**
+ * A session the current user created. The id is public (it is part of the
+ * browser source URL); the control token is the secret needed to change it.
+ */
+export interface SessionControl {
+  id: string;
+  controlToken: string;
+}
+
+export type SessionPatch = Record<string, unknown>;
+
+const SESSION_ID_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+const SESSION_ID_LENGTH = 10;
+const CREATE_SESSION_ATTEMPTS = 3;
+
+/** Postgres unique_violation, raised when a generated id is already taken. */
+const UNIQUE_VIOLATION = "23505";
+
+// The largest multiple of the alphabet size below 256. Bytes at or above it
+// are discarded so every character is equally likely.
+const UNBIASED_BYTE_LIMIT = 256 - (256 % SESSION_ID_ALPHABET.length);
+
+export const generateSessionId = () => {
+  let id = "";
+  while (id.length < SESSION_ID_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(SESSION_ID_LENGTH))) {
+      if (byte < UNBIASED_BYTE_LIMIT && id.length < SESSION_ID_LENGTH) {
+        id += SESSION_ID_ALPHABET.charAt(byte % SESSION_ID_ALPHABET.length);
+      }
+    }
+  }
+  return id;
+};
+
+/** Columns copied when a session is duplicated; everything but identity and state. */
+export const SESSION_SETTINGS_COLUMNS = [
+  "image_url",
+  "media_type",
+  "media_options",
+  "playlist",
+  "playlist_index",
+  "auto_advance_seconds",
+  "transition",
+  "layout",
+  "layers",
+  "caption",
+  "auto_hide_seconds",
+  "countdown",
+  "fallback_url",
+] as const;
+
+/**
+ * Creates a session showing imageUrl and remembers its control token in this
+ * browser. Any other initial columns are written right after creation with
+ * the freshly issued token; if that fails, the new session is deleted again.
+ */
+export async function createSession(
+  client: SupabaseClient,
+  imageUrl: string,
+  initialPatch: SessionPatch = {},
+): Promise<{ session: SessionControl | null; error: Error | null }> {
+  let id = generateSessionId();
+  let { data, error } = await client.rpc("create_session", {
+    new_session_id: id,
+    new_image_url: imageUrl,
+  });
+  // create_session inserts rather than upserts, so a clash fails loudly;
+  // retry with a fresh id instead of surfacing it.
+  for (let attempt = 1; error?.code === UNIQUE_VIOLATION && attempt < CREATE_SESSION_ATTEMPTS; attempt += 1) {
+    id = generateSessionId();
+    ({ data, error } = await client.rpc("create_session", {
+      new_session_id: id,
+      new_image_url: imageUrl,
+    }));
+  }
+  if (error || typeof data !== "string") {
+    return { session: null, error: error ?? new Error("No control token was issued.") };
+  }
+  const session = { id, controlToken: data };
+  storeSession(session);
+  if (Object.keys(initialPatch).length) {
+    const { error: patchError } = await updateSession(client, session, initialPatch);
+    if (patchError) {
+      // If the delete fails too, the session stays in this browser's list
+      // (it was stored above), so it can still be removed from the dashboard.
+      const { error: deleteError } = await deleteSession(client, session);
+      if (deleteError) console.error("Failed to delete half-created session:", deleteError);
+      return { session: null, error: patchError };
+    }
+  }
+  return { session, error: null };
+}
+
+export async function updateSession(
+  client: SupabaseClient,
+  session: SessionControl,
+  patch: SessionPatch,
+): Promise<{ error: Error | null }> {
+  const { data, error } = await client
+    .from("sessions")
+    .update(patch)
+    .eq("id", session.id)
+    .setHeader(CONTROL_TOKEN_HEADER, session.controlToken)
+    .select("id");
+  if (error) return { error };
+  // Row-level security filters out rows the token doesn't control instead of
+  // failing the request, so an empty result means the write was rejected.
+  if (!data?.length) {
+    return { error: new Error("Session not found or control token rejected.") };
+  }
+  return { error: null };
+}
+
+export async function deleteSession(
+  client: SupabaseClient,
+  session: SessionControl,
+): Promise<{ error: Error | null }> {
+  const { error } = await client
+    .from("sessions")
+    .delete()
+    .eq("id", session.id)
+    .setHeader(CONTROL_TOKEN_HEADER, session.controlToken);
+  if (!error) {
+    forgetSession(session.id);
+  }
+  return { error };
+}
+
+/**
+ * Gives a session a custom slug, or clears it with null. If another session
+ * this browser controls holds the slug, it is moved over, so a recreated
+ * source can keep its URL.
+ */
+export async function setSessionSlug(
+  client: SupabaseClient,
+  session: SessionControl,
+  slug: string | null,
+): Promise<{ error: Error | null }> {
+  if (slug) {
+    const { data: holder, error: holderError } = await client
+      .from("sessions")
+      .select("id")
+      .eq("slug", slug)
+      .maybeSingle();
+    if (holderError) return { error: holderError };
+    if (holder && holder.id !== session.id) {
+      const owned = getStoredSession(holder.id);
+      if (!owned) {
+        return { error: new Error("That URL is already taken.") };
+      }
+      const { error: releaseError } = await updateSession(client, owned, { slug: null });
+      if (releaseError) return { error: releaseError };
+    }
+  }
+  const { error } = await updateSession(client, session, { slug });
+  if ((error as { code?: string } | null)?.code === UNIQUE_VIOLATION) {
+    return { error: new Error("That URL is already taken.") };
+  }
+  return { error };
+}
+
+/** Resolves a /source/:sessionId route parameter, which may be an id or a slug. */
+export async function resolveSessionId(client: SupabaseClient, idOrSlug: string): Promise<string | null> {
+  for (const column of ["id", "slug"]) {
+    const { data, error } = await client.from("sessions").select("id").eq(column, idOrSlug).maybeSingle();
+    if (error) {
+      console.error("Failed to resolve session:", error);
+      return null;
+    }
+    if (data) return data.id as string;
+  }
+  return null;
+}
+
+/**
+ * Lets a browser source flag (or clear) a load failure of the image the
+ * session is showing. Sources have no control token, so this goes through a
+ * function that can only touch the current image's error.
+ */
+export async function reportSourceMediaStatus(
+  client: SupabaseClient,
+  sessionId: string,
+  url: string,
+  failed: boolean,
+): Promise<{ error: Error | null }> {
+  const { error } = await client.rpc("report_source_media_status", {
+    target_session_id: sessionId,
+    media_url: url,
+    failed,
+  });
+  return { error };
+}
+
+/**
+ * Lets a browser source hide a clip set to "hide when finished" once it has
+ * played through. Only works for the clip the session is showing.
+ */
+export async function reportSourceMediaEnded(
+  client: SupabaseClient,
+  sessionId: string,
+  url: string,
+): Promise<{ error: Error | null }> {
+  const { error } = await client.rpc("report_source_media_ended", {
+    target_session_id: sessionId,
+    media_url: url,
+  });
+  return { error };
+}
+
+/** Creates a new session with the same settings as an existing one. */
+export async function duplicateSession(
+  client: SupabaseClient,
+  session: SessionControl,
+  name: string,
+): Promise<{ session: SessionControl | null; error: Error | null }> {
+  const { data, error } = await client
+    .from("sessions")
+    .select(SESSION_SETTINGS_COLUMNS.join(", "))
+    .eq("id", session.id)
+    .single<Record<string, unknown>>();
+  if (error) return { session: null, error };
+  return createSession(client, typeof data.image_url === "string" ? data.image_url : "", { ...data, name });
+}
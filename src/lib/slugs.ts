@@ -0,0 +1,32 @@
+// Keep in sync with the sessions_slug_format constraint in
+// supabase/migrations/20261019001000_session_slugs.sql.
+export const RESERVED_SLUGS = ["admin", "api", "elestrals", "new", "preview", "sessions", "settings", "source"];
+
+export const MIN_SLUG_LENGTH = 3;
+export const MAX_SLUG_LENGTH = 48;
+
+const slugPattern = /^[a-z0-9][a-z0-9-]*[a-z0-9]$/;
+
+/** Lower-cases and hyphenates free text, e.g. "Main Card Cam" → "main-card-cam". */
+export const normalizeSlug = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/** Returns why a slug can't be used, or null when it is valid. */
+export const validateSlug = (slug: string): string | null => {
+  if (slug.length < MIN_SLUG_LENGTH || slug.length > MAX_SLUG_LENGTH) {
+    return `Use ${MIN_SLUG_LENGTH}–${MAX_SLUG_LENGTH} characters.`;
+  }
+  if (!slugPattern.test(slug) || slug.includes("--")) {
+    return "Use lowercase letters, numbers and single hyphens, starting and ending with a letter or number.";
+  }
+  if (RESERVED_SLUGS.includes(slug)) {
+    return `"${slug}" is reserved.`;
+  }
+  return null;
+};
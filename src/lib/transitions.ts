@@ -0,0 +1,100 @@
+import type { Transition, Variants } from "framer-motion";
+import { pick, toNumber } from "@/lib/parse-values";
+
+export const TRANSITION_PRESETS = ["none", "fade", "slide", "zoom", "flip", "blur", "wipe"] as const;
+export const TRANSITION_DIRECTIONS = ["left", "right", "top", "bottom"] as const;
+export const TRANSITION_EASINGS = [
+  "linear",
+  "easeIn",
+  "easeOut",
+  "easeInOut",
+  "circOut",
+  "backOut",
+  "anticipate",
+] as const;
+
+export type TransitionPreset = (typeof TRANSITION_PRESETS)[number];
+export type TransitionDirection = (typeof TRANSITION_DIRECTIONS)[number];
+export type TransitionEasing = (typeof TRANSITION_EASINGS)[number];
+
+export interface TransitionSettings {
+  preset: TransitionPreset;
+  /** Edge the image enters from; only used by slide and wipe. */
+  direction: TransitionDirection;
+  /** Seconds. */
+  duration: number;
+  easing: TransitionEasing;
+}
+
+export const DEFAULT_TRANSITION: TransitionSettings = {
+  preset: "fade",
+  direction: "left",
+  duration: 0.45,
+  easing: "easeOut",
+};
+
+export const MAX_TRANSITION_DURATION = 5;
+
+export const parseTransition = (value: unknown): TransitionSettings => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return {
+    preset: pick(TRANSITION_PRESETS, raw.preset, DEFAULT_TRANSITION.preset),
+    direction: pick(TRANSITION_DIRECTIONS, raw.direction, DEFAULT_TRANSITION.direction),
+    duration: toNumber(raw.duration, DEFAULT_TRANSITION.duration, 0, MAX_TRANSITION_DURATION),
+    easing: pick(TRANSITION_EASINGS, raw.easing, DEFAULT_TRANSITION.easing),
+  };
+};
+
+const slideOffsets: Record<TransitionDirection, { x?: string; y?: string }> = {
+  left: { x: "-100%" },
+  right: { x: "100%" },
+  top: { y: "-100%" },
+  bottom: { y: "100%" },
+};
+
+// The hidden clip-path leaves the whole image clipped away on the entry edge.
+const wipeClips: Record<TransitionDirection, string> = {
+  left: "inset(0% 100% 0% 0%)",
+  right: "inset(0% 0% 0% 100%)",
+  top: "inset(0% 0% 100% 0%)",
+  bottom: "inset(100% 0% 0% 0%)",
+};
+
+/**
+ * Framer-motion variants keyed "hidden" and "visible". Exits reuse "hidden",
+ * so an image leaves the way it came in.
+ */
+export const getTransitionVariants = ({ preset, direction }: TransitionSettings): Variants => {
+  switch (preset) {
+    case "none":
+      return { hidden: { opacity: 0 }, visible: { opacity: 1 } };
+    case "slide":
+      return {
+        hidden: { opacity: 0, x: 0, y: 0, ...slideOffsets[direction] },
+        visible: { opacity: 1, x: 0, y: 0 },
+      };
+    case "zoom":
+      return { hidden: { opacity: 0, scale: 0.5 }, visible: { opacity: 1, scale: 1 } };
+    case "flip":
+      return {
+        hidden: { opacity: 0, rotateY: 90, transformPerspective: 1000 },
+        visible: { opacity: 1, rotateY: 0, transformPerspective: 1000 },
+      };
+    case "blur":
+      return {
+        hidden: { opacity: 0, filter: "blur(20px)" },
+        visible: { opacity: 1, filter: "blur(0px)" },
+      };
+    case "wipe":
+      return {
+        hidden: { clipPath: wipeClips[direction] },
+        visible: { clipPath: "inset(0% 0% 0% 0%)" },
+      };
+    case "fade":
+    default:
+      return { hidden: { opacity: 0, scale: 0.97 }, visible: { opacity: 1, scale: 1 } };
+  }
+};
+
+export const getTransitionTiming = ({ preset, duration, easing }: TransitionSettings): Transition =>
+  preset === "none" ? { duration: 0 } : { duration, ease: easing };
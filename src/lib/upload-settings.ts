@@ -0,0 +1,63 @@
+import { pick, toInteger, toNumber } from "@/lib/parse-values";
+
+export const OUTPUT_FORMATS = ["avif", "webp", "original"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Per-browser limits applied to images before they are uploaded. */
+export interface UploadSettings {
+  /** Files above this are rejected before any processing. */
+  maxFileSizeMb: number;
+  /** Images wider or taller than this are rejected. */
+  maxDimension: number;
+  /** Shrink images larger than the session canvas to fit it. */
+  downscaleToCanvas: boolean;
+  /** Preferred output; unsupported formats fall back to WebP, then JPEG/PNG. */
+  format: OutputFormat;
+  /** Encoder quality from 0.1 to 1. */
+  quality: number;
+  /** Copy linked images into storage so the stream doesn't depend on the original host. */
+  cacheRemoteMedia: boolean;
+}
+
+export const DEFAULT_UPLOAD_SETTINGS: UploadSettings = {
+  maxFileSizeMb: 25,
+  maxDimension: 8192,
+  downscaleToCanvas: true,
+  format: "webp",
+  quality: 0.9,
+  cacheRemoteMedia: false,
+};
+
+const STORAGE_KEY = "image-source-upload-settings";
+
+export const parseUploadSettings = (value: unknown): UploadSettings => {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return {
+    maxFileSizeMb: toNumber(raw.maxFileSizeMb, DEFAULT_UPLOAD_SETTINGS.maxFileSizeMb, 1, 500),
+    maxDimension: toInteger(raw.maxDimension, DEFAULT_UPLOAD_SETTINGS.maxDimension, 64, 16384),
+    downscaleToCanvas:
+      typeof raw.downscaleToCanvas === "boolean" ? raw.downscaleToCanvas : DEFAULT_UPLOAD_SETTINGS.downscaleToCanvas,
+    format: pick(OUTPUT_FORMATS, raw.format, DEFAULT_UPLOAD_SETTINGS.format),
+    quality: toNumber(raw.quality, DEFAULT_UPLOAD_SETTINGS.quality, 0.1, 1),
+    cacheRemoteMedia:
+      typeof raw.cacheRemoteMedia === "boolean" ? raw.cacheRemoteMedia : DEFAULT_UPLOAD_SETTINGS.cacheRemoteMedia,
+  };
+};
+
+export const loadUploadSettings = (): UploadSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return parseUploadSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return DEFAULT_UPLOAD_SETTINGS;
+  }
+};
+
+export const saveUploadSettings = (settings: UploadSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Failed to save upload settings:", error);
+  }
+};
@@ -1,14 +1,130 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { supabase } from "./supabaseClient";
+import { processImage } from "./image-processing";
+import { loadUploadSettings, type UploadSettings } from "./upload-settings";
+import { addLibraryItem } from "./media-library";
+import { getFileMediaType } from "./media";
 
-export async function uploadImage(file: File): Promise<string | null> {
-  if (!supabase) return null;
+export interface UploadImageOptions {
+  /** Called with 0–100 while the file is sent. */
+  onProgress?: (percent: number) => void;
+  /** Defaults to the settings saved in this browser. */
+  settings?: UploadSettings;
+  /** Canvas size images are downscaled to. */
+  targetWidth?: number;
+  targetHeight?: number;
+}
+
+const MAX_BASE_NAME_LENGTH = 64;
+
+/** Keeps storage paths to lowercase ASCII letters, digits, "-" and "_". */
+const sanitizeFileName = (name: string) => {
+  const dot = name.lastIndexOf(".");
+  const base =
+    (dot > 0 ? name.slice(0, dot) : name)
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, MAX_BASE_NAME_LENGTH) || "image";
+  const extension = dot > 0 ? name.slice(dot + 1).toLowerCase().replace(/[^a-z0-9]/g, "").slice(0, 8) : "";
+  return extension ? `${base}.${extension}` : base;
+};
+
+/** SHA-256 of the file as hex; random when SubtleCrypto is unavailable (non-HTTPS origins). */
+const hashFile = async (file: File) => {
+  if (!crypto.subtle) return crypto.randomUUID();
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/** Sends the file to a signed upload URL with XHR, which, unlike fetch, reports upload progress. */
+const putWithProgress = (url: string, file: File, onProgress?: (percent: number) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("PUT", url);
+    request.setRequestHeader("Content-Type", file.type || "application/octet-stream");
+    request.setRequestHeader("x-upsert", "false");
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    request.onload = () =>
+      request.status >= 200 && request.status < 300
+        ? resolve()
+        : reject(new Error(`Upload failed with status ${request.status}: ${request.responseText}`));
+    request.onerror = () => reject(new Error("Upload failed: network error."));
+    request.send(file);
+  });
+
+/** Adds the upload to this browser's media library; failures only cost the shortcut. */
+const recordUpload = async (client: SupabaseClient, file: File, upload: File, storagePath: string, url: string) => {
+  const { error } = await addLibraryItem(client, {
+    name: file.name,
+    url,
+    storagePath,
+    mediaType: getFileMediaType(upload) ?? "image",
+    sizeBytes: upload.size,
+  });
+  if (error) console.warn("Failed to add upload to the media library:", error);
+};
+
+/**
+ * Validates and optimises the file, then uploads it to the "images" bucket
+ * under a folder named after its SHA-256 hash. Identical content reuses the
+ * object that is already there instead of storing another copy. Every upload
+ * is recorded in the media library. Resolves to the public URL, or to an error message fit to show the user.
+ */
+export async function uploadImage(
+  file: File,
+  options: UploadImageOptions = {},
+): Promise<{ publicUrl: string | null; error: string | null }> {
+  if (!supabase) return { publicUrl: null, error: "Supabase is not configured." };
   const client = supabase;
-  const filePath = `${crypto.randomUUID()}-${file.name}`;
-  const { error } = await client.storage.from("images").upload(filePath, file);
-  if (error) {
+
+  const processed = await processImage(file, {
+    settings: options.settings ?? loadUploadSettings(),
+    targetWidth: options.targetWidth,
+    targetHeight: options.targetHeight,
+  });
+  if (processed.error !== null) {
+    return { publicUrl: null, error: processed.error };
+  }
+
+  const upload = processed.file;
+  const bucket = client.storage.from("images");
+  const hash = await hashFile(upload);
+  const { data: existing } = await bucket.list(hash, { limit: 1 });
+  if (existing?.length) {
+    options.onProgress?.(100);
+    const existingPath = `${hash}/${existing[0].name}`;
+    const { publicUrl } = bucket.getPublicUrl(existingPath).data;
+    await recordUpload(client, file, upload, existingPath, publicUrl);
+    return { publicUrl, error: null };
+  }
+
+  const filePath = `${hash}/${sanitizeFileName(upload.name)}`;
+  const { data: signed, error: signError } = await bucket.createSignedUploadUrl(filePath);
+  // Another upload of the same content may have finished in the meantime.
+  if (signError && /already exists|duplicate/i.test(signError.message)) {
+    const { publicUrl } = bucket.getPublicUrl(filePath).data;
+    await recordUpload(client, file, upload, filePath, publicUrl);
+    return { publicUrl, error: null };
+  }
+  if (signError || !signed) {
+    console.error("Failed to upload image:", signError);
+    return { publicUrl: null, error: "Could not upload the file. Please try again." };
+  }
+  try {
+    options.onProgress?.(0);
+    await putWithProgress(signed.signedUrl, upload, options.onProgress);
+  } catch (error) {
     console.error("Failed to upload image:", error);
-    return null;
+    return { publicUrl: null, error: "Could not upload the file. Please try again." };
   }
-  const { data } = client.storage.from("images").getPublicUrl(filePath);
-  return data?.publicUrl ?? null;
+  const { publicUrl } = bucket.getPublicUrl(filePath).data;
+  await recordUpload(client, file, upload, filePath, publicUrl);
+  return { publicUrl, error: null };
 }
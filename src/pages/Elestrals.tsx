@@ -1,9 +1,25 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import { useToast } from "@/components/ui/use-toast";
 import { supabase } from "@/lib/supabaseClient";
+import { createSession, updateSession, type SessionControl } from "@/lib/sessions";
 import { sectionVariants } from "@/utils/animations";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { HotkeyCheatSheet } from "@/components/hotkey-cheat-sheet";
+import { useHotkeys, type HotkeyHandlers } from "@/hooks/use-hotkeys";
+import { useSessionUpdates } from "@/hooks/use-session-updates";
+import { useSourcePresence } from "@/hooks/use-source-presence";
+import { SourcePresenceIndicator } from "@/components/source-presence-indicator";
+import { ElestralsFiltersBar } from "@/components/elestrals-filters";
+import {
+  EMPTY_ELESTRALS_FILTERS,
+  appendElestralsFilters,
+  type ElestralsFacets,
+  type ElestralsFilters,
+} from "@/lib/elestrals-filters";
+import { TransitionMedia } from "@/components/transition-media";
+import { DEFAULT_TRANSITION } from "@/lib/transitions";
+import { DEFAULT_CAPTION, hasCaptionText, type CaptionSettings } from "@/lib/caption";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -19,6 +35,19 @@ interface ElestralsCard {
   imageUrl: string;
   setNumber?: string;
   info?: string;
+  elements?: string[];
+  cardType?: string;
+  subtype?: string;
+  rarity?: string;
+  setCode?: string;
+  setName?: string;
+  collectorNumber?: string;
+  cost?: number;
+  attack?: number;
+  defense?: number;
+  artist?: string;
+  variant?: string;
+  isFoil?: boolean;
 }
 
 interface SourceData {
@@ -28,7 +57,37 @@ interface SourceData {
 
 const PAGE_SIZE = 50;
 
-const normalize = (value: string) => value.trim().toLowerCase();
+const buildCardCaption = (card: ElestralsCard): CaptionSettings => ({
+  ...DEFAULT_CAPTION,
+  title: card.name,
+  subtitle: card.setNumber ? `#${card.setNumber}` : "",
+});
+
+// Older snapshots only carry name, number and text, so every line below is
+// optional and an empty string means "leave it out".
+const describeCardKind = (card: ElestralsCard) =>
+  [[card.cardType, card.subtype].filter(Boolean).join(" – "), card.elements?.join(" / ")].filter(Boolean).join(" · ");
+
+const describeCardStats = (card: ElestralsCard) =>
+  [
+    card.cost !== undefined && `Cost ${card.cost}`,
+    card.attack !== undefined && `ATK ${card.attack}`,
+    card.defense !== undefined && `DEF ${card.defense}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const describeCardSet = (card: ElestralsCard) => {
+  const set = card.setName && card.setCode ? `${card.setName} (${card.setCode})` : card.setName || card.setCode;
+  const number = card.collectorNumber ?? card.setNumber;
+  return [set, number && `#${number}`].filter(Boolean).join(" ");
+};
+
+const describeCardPrinting = (card: ElestralsCard) => {
+  if (card.variant) return card.isFoil && !/foil|holo/i.test(card.variant) ? `${card.variant} foil` : card.variant;
+  return card.isFoil ? "Foil" : "";
+};
+
 const apiBase = (import.meta.env.VITE_ELESTRALS_API_BASE || "/api").replace(/\/+$/, "");
 
 const parseCardPayload = (rawText: string) => {
@@ -47,25 +106,41 @@ const Elestrals = () => {
   const [cards, setCards] = useState<ElestralsCard[]>([]);
   const [totalCards, setTotalCards] = useState(0);
   const [query, setQuery] = useState("");
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<ElestralsFilters>(EMPTY_ELESTRALS_FILTERS);
+  const [facets, setFacets] = useState<ElestralsFacets>({});
   const [selectedCard, setSelectedCard] = useState<ElestralsCard | null>(null);
-  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [session, setSession] = useState<SessionControl | null>(null);
   const [sourceData, setSourceData] = useState<SourceData>({ imageUrl: null, isRevealed: false });
   const [baseCardOnly, setBaseCardOnly] = useState(true);
+  const [captionFromCard, setCaptionFromCard] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [refreshNote, setRefreshNote] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [refreshStatus, setRefreshStatus] = useState<string | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const hotkeyHandlersRef = useRef<HotkeyHandlers>({});
+  const { bindings, setBinding, resetBindings } = useHotkeys(hotkeyHandlersRef);
+  const sources = useSourcePresence(session?.id ?? null);
+
+  useSessionUpdates(session?.id ?? null, (row) =>
+    setSourceData({
+      imageUrl: typeof row.image_url === "string" ? row.image_url : null,
+      isRevealed: row.is_revealed === true,
+    }),
+  );
 
   const fetchCards = useCallback(
     async ({ signal, refresh = false }: { signal?: AbortSignal; refresh?: boolean } = {}) => {
-      const normalizedQuery = normalize(query);
+      // Sent as typed: the query language keeps "OR" and "NOT" upper-case.
       const params = new URLSearchParams({
-        q: normalizedQuery,
+        q: query.trim(),
         page: "1",
         pageSize: `${PAGE_SIZE}`,
       });
+      appendElestralsFilters(params, filters);
       if (refresh) {
         params.set("refresh", "1");
       }
@@ -81,6 +156,12 @@ const Elestrals = () => {
       }
 
       const payload = parseCardPayload(responseText);
+      // Query syntax errors show under the search box and keep the last results.
+      if (response.status === 400 && payload?.queryError) {
+        setQueryError(String(payload.error));
+        return false;
+      }
+      setQueryError(null);
       if (!response.ok) {
         const details = payload && "error" in payload ? `: ${(payload as { error?: string }).error}` : "";
         setLoadError(`Unable to load card data (status ${response.status}${details}). Check the local index ingestion job.`);
@@ -97,9 +178,10 @@ const Elestrals = () => {
       }
       setCards(payload.cards);
       setTotalCards(typeof payload.total === "number" ? payload.total : payload.cards.length);
+      setFacets(payload.facets && typeof payload.facets === "object" ? payload.facets : {});
       return true;
     },
-    [query],
+    [query, filters],
   );
 
   useEffect(() => {
@@ -165,23 +247,27 @@ const Elestrals = () => {
   }
 
   const client = sb as NonNullable<typeof sb>;
+  const sessionId = session?.id ?? null;
 
-  const ensureSession = async (newImageUrl: string) => {
-    if (sessionId) {
-      await client
-        .from("sessions")
-        .update({ image_url: newImageUrl, is_revealed: false })
-        .eq("id", sessionId);
+  const ensureSession = async (newImageUrl: string, caption: CaptionSettings) => {
+    if (session) {
+      const { error } = await updateSession(client, session, {
+        image_url: newImageUrl,
+        is_revealed: false,
+        playlist: [{ url: newImageUrl }],
+        playlist_index: 0,
+        caption,
+      });
+      if (error) {
+        console.error("Failed to update session:", error);
+      }
       setSourceData({ imageUrl: newImageUrl, isRevealed: false });
       return;
     }
 
-    const newSessionId = Math.random().toString(36).substring(2, 10);
-    const { error } = await client
-      .from("sessions")
-      .upsert({ id: newSessionId, image_url: newImageUrl, is_revealed: false });
+    const { session: newSession, error } = await createSession(client, newImageUrl);
 
-    if (error) {
+    if (error || !newSession) {
       console.error("Failed to create session:", error);
       toast({
         variant: "destructive",
@@ -191,22 +277,41 @@ const Elestrals = () => {
       return;
     }
 
-    setSessionId(newSessionId);
+    if (hasCaptionText(caption)) {
+      const { error: captionError } = await updateSession(client, newSession, { caption });
+      if (captionError) {
+        console.error("Failed to update session:", captionError);
+      }
+    }
+
+    setSession(newSession);
     setSourceData({ imageUrl: newImageUrl, isRevealed: false });
   };
 
   const handleSelectCard = async (card: ElestralsCard) => {
     setSelectedCard(card);
-    await ensureSession(card.imageUrl);
+    await ensureSession(card.imageUrl, captionFromCard ? buildCardCaption(card) : DEFAULT_CAPTION);
+  };
+
+  // Browsing with the hotkeys moves the selection without touching the
+  // source, so the selected card isn't always the one on stream.
+  const isSelectedCardLive = Boolean(selectedCard) && selectedCard?.imageUrl === sourceData.imageUrl;
+
+  const toggleCaptionFromCard = async (checked: boolean) => {
+    setCaptionFromCard(checked);
+    if (!session || !selectedCard || !isSelectedCardLive) return;
+    const { error } = await updateSession(client, session, {
+      caption: checked ? buildCardCaption(selectedCard) : DEFAULT_CAPTION,
+    });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
   };
 
   const toggleReveal = async (checked: boolean) => {
-    if (!sessionId || !sourceData.imageUrl) return;
+    if (!session || !sourceData.imageUrl) return;
     setSourceData((prev) => ({ ...prev, isRevealed: checked }));
-    const { error } = await client
-      .from("sessions")
-      .update({ is_revealed: checked })
-      .eq("id", sessionId);
+    const { error } = await updateSession(client, session, { is_revealed: checked });
     if (error) {
       console.error("Failed to update session:", error);
     }
@@ -258,9 +363,33 @@ const Elestrals = () => {
     }
   };
 
+  // Next/previous step through the current search results without sending
+  // anything to the source; "Show on source" (or a click) puts the card live.
+  // "Change image" jumps to the search box to pick another card.
+  const selectAdjacentCard = (offset: number) => {
+    if (!cards.length) return;
+    const currentIndex = selectedCard ? cards.findIndex((card) => card.id === selectedCard.id) : -1;
+    const nextIndex = currentIndex < 0 ? 0 : (currentIndex + offset + cards.length) % cards.length;
+    setSelectedCard(cards[nextIndex]);
+  };
+
+  hotkeyHandlersRef.current = {
+    toggleReveal: session ? () => void toggleReveal(!sourceData.isRevealed) : undefined,
+    next: session ? () => selectAdjacentCard(1) : undefined,
+    previous: session ? () => selectAdjacentCard(-1) : undefined,
+    changeImage: () => searchInputRef.current?.focus(),
+    copyUrl: session ? copyToClipboard : undefined,
+  };
+
   return (
     <div className="min-h-screen bg-background text-foreground flex flex-col items-center justify-center p-4 md:p-8 relative">
-      <div className="absolute top-4 right-4">
+      <div className="absolute top-4 right-4 flex gap-2">
+        <HotkeyCheatSheet
+          bindings={bindings}
+          actions={["toggleReveal", "next", "previous", "changeImage", "copyUrl"]}
+          onBind={setBinding}
+          onReset={resetBindings}
+        />
         <ThemeToggle />
       </div>
       <motion.div
@@ -284,8 +413,11 @@ const Elestrals = () => {
                 <div className="relative flex-1">
                   <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                   <Input
+                    ref={searchInputRef}
                     id="card-search"
-                    placeholder="Type a card name..."
+                    placeholder='Type a card name, or try element:fire cost<=3 "exact name"'
+                    aria-invalid={Boolean(queryError)}
+                    aria-describedby="card-search-help"
                     className="pl-9"
                     value={query}
                     onChange={(event) => setQuery(event.target.value)}
@@ -295,6 +427,17 @@ const Elestrals = () => {
                   {totalCards} cards
                 </Badge>
               </div>
+              {queryError ? (
+                <p id="card-search-help" className="text-sm text-destructive">
+                  {queryError}
+                </p>
+              ) : (
+                <p id="card-search-help" className="text-xs text-muted-foreground">
+                  Filter with element:, type:, rarity:, set:, artist: or cost&lt;=3 (also attack, defense). Quote exact
+                  names, prefix - to exclude, and join alternatives with OR.
+                </p>
+              )}
+              <ElestralsFiltersBar facets={facets} filters={filters} onChange={setFilters} />
               {loadError && <p className="text-sm text-destructive">{loadError}</p>}
               {isLoading && <p className="text-sm text-muted-foreground">Loading cards…</p>}
               <div className="flex flex-wrap items-center gap-3">
@@ -366,14 +509,14 @@ const Elestrals = () => {
               <Card className="bg-muted/20 border border-primary/30">
                 <CardHeader>
                   <CardTitle className="text-lg">Search results</CardTitle>
-                  <CardDescription>Results are filtered server-side by your search query.</CardDescription>
+                  <CardDescription>Best matches first; small typos and missing accents still find the card.</CardDescription>
                 </CardHeader>
                 <CardContent className="pt-0">
                   <ScrollArea className="h-[320px] pr-2">
                     <div className="space-y-2">
                       {!isLoading && cards.length === 0 && (
                         <p className="text-sm text-muted-foreground">
-                          No cards match that search. Try another name.
+                          No cards match that search. Try another name or clear some filters.
                         </p>
                       )}
                       {cards.map((card) => (
@@ -390,11 +533,16 @@ const Elestrals = () => {
                           <div className="flex items-center justify-between gap-2">
                             <div className="space-y-1">
                               <p className="font-medium">{card.name}</p>
-                              {card.setNumber && (
-                                <p className="text-xs text-muted-foreground">Set {card.setNumber}</p>
+                              {describeCardKind(card) ? (
+                                <p className="text-xs text-muted-foreground">{describeCardKind(card)}</p>
+                              ) : (
+                                card.setNumber && <p className="text-xs text-muted-foreground">Set {card.setNumber}</p>
                               )}
                             </div>
-                            {card.setNumber && <Badge variant="outline">#{card.setNumber}</Badge>}
+                            <div className="flex flex-shrink-0 flex-wrap justify-end gap-1">
+                              {card.rarity && <Badge variant="secondary">{card.rarity}</Badge>}
+                              {card.setNumber && <Badge variant="outline">#{card.setNumber}</Badge>}
+                            </div>
                           </div>
                         </button>
                       ))}
@@ -423,24 +571,59 @@ const Elestrals = () => {
                           <div className="space-y-2">
                             <div>
                               <h3 className="text-lg font-semibold">{selectedCard.name}</h3>
-                              {selectedCard.setNumber && (
-                                <p className="text-sm text-muted-foreground">
-                                  Set number: {selectedCard.setNumber}
-                                </p>
+                              {describeCardSet(selectedCard) && (
+                                <p className="text-sm text-muted-foreground">{describeCardSet(selectedCard)}</p>
                               )}
                             </div>
+                            {(describeCardKind(selectedCard) || selectedCard.rarity || describeCardPrinting(selectedCard)) && (
+                              <div className="flex flex-wrap gap-1">
+                                {selectedCard.cardType && <Badge>{selectedCard.cardType}</Badge>}
+                                {selectedCard.subtype && <Badge variant="outline">{selectedCard.subtype}</Badge>}
+                                {selectedCard.elements?.map((element) => (
+                                  <Badge key={element} variant="outline">
+                                    {element}
+                                  </Badge>
+                                ))}
+                                {selectedCard.rarity && <Badge variant="secondary">{selectedCard.rarity}</Badge>}
+                                {describeCardPrinting(selectedCard) && (
+                                  <Badge variant="secondary">{describeCardPrinting(selectedCard)}</Badge>
+                                )}
+                              </div>
+                            )}
+                            {describeCardStats(selectedCard) && (
+                              <p className="text-sm font-medium">{describeCardStats(selectedCard)}</p>
+                            )}
                             {selectedCard.info && (
                               <p className="text-sm text-muted-foreground whitespace-pre-line">
                                 {selectedCard.info}
                               </p>
                             )}
+                            {selectedCard.artist && (
+                              <p className="text-xs text-muted-foreground">Illustrated by {selectedCard.artist}</p>
+                            )}
                           </div>
                         </div>
                       </div>
 
+                      {session && !isSelectedCardLive && (
+                        <div className="flex items-center justify-between gap-2 rounded-lg border border-primary/50 p-3">
+                          <p className="text-xs text-muted-foreground">The source still shows the previous card.</p>
+                          <Button
+                            variant="outline"
+                            className="border-primary text-primary hover:bg-primary/10"
+                            onClick={() => void handleSelectCard(selectedCard)}
+                          >
+                            Show on source
+                          </Button>
+                        </div>
+                      )}
+
                       {browserSourceUrl && (
                         <div className="space-y-2">
-                          <Label>Browser Source URL</Label>
+                          <div className="flex items-center justify-between gap-2">
+                            <Label>Browser Source URL</Label>
+                            <SourcePresenceIndicator sources={sources} currentUrl={sourceData.imageUrl} />
+                          </div>
                           <div className="flex gap-2">
                             <Input readOnly value={browserSourceUrl} className="font-mono" />
                             <Button
@@ -465,7 +648,9 @@ const Elestrals = () => {
                               Reveal Image
                             </Label>
                             <p className="text-xs text-muted-foreground">
-                              Toggle to show or hide the card art on stream.
+                              {sources.length
+                                ? "Toggle to show or hide the card art on stream."
+                                : "No browser source is open, so a reveal won't appear on stream yet."}
                             </p>
                           </div>
                           <Switch
@@ -476,23 +661,34 @@ const Elestrals = () => {
                         </div>
                       )}
 
+                      <div className="flex items-center justify-between rounded-lg border border-primary/50 p-3 bg-muted">
+                        <div className="space-y-0.5">
+                          <Label htmlFor="caption-switch" className="text-sm">
+                            Card name caption
+                          </Label>
+                          <p className="text-xs text-muted-foreground">
+                            Show the card name and set number under the art on stream.
+                          </p>
+                        </div>
+                        <Switch
+                          id="caption-switch"
+                          checked={captionFromCard}
+                          onCheckedChange={toggleCaptionFromCard}
+                        />
+                      </div>
+
                       {sourceData.imageUrl && (
                         <motion.div variants={sectionVariants} initial="hidden" animate="visible" whileHover="hover">
                           <Label>Image Preview</Label>
                           <div className="mt-2 rounded-md border border-primary/50 aspect-[3/4] w-full flex items-center justify-center bg-muted overflow-hidden p-4 shadow-inner shadow-[0_0_15px_hsl(var(--glow)/0.2)]">
                             <AnimatePresence mode="wait">
-                              <motion.img
+                              <TransitionMedia
                                 key={sourceData.imageUrl}
                                 src={sourceData.imageUrl}
                                 alt="Preview"
                                 className="max-h-full max-w-full object-contain"
-                                initial={{ opacity: 0, scale: 0.97 }}
-                                animate={{
-                                  opacity: sourceData.isRevealed ? 1 : 0,
-                                  scale: sourceData.isRevealed ? 1 : 0.97,
-                                }}
-                                exit={{ opacity: 0, scale: 0.97 }}
-                                transition={{ duration: 0.45, ease: "easeOut" }}
+                                isRevealed={sourceData.isRevealed}
+                                transition={DEFAULT_TRANSITION}
                               />
                             </AnimatePresence>
                           </div>
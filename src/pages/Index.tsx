@@ -1,7 +1,11 @@
-import { useState, useRef, ChangeEvent } from "react";
-import { AnimatePresence, motion } from "framer-motion";
+import { useState, useRef, useEffect, useCallback, ChangeEvent } from "react";
+import { motion } from "framer-motion";
 import { supabase } from "@/lib/supabaseClient";
 import { uploadImage } from "@/lib/uploadImage";
+import { checkRemoteMedia } from "@/lib/remote-media";
+import { loadUploadSettings } from "@/lib/upload-settings";
+import { createSession, setSessionSlug, updateSession, type SessionControl } from "@/lib/sessions";
+import { parsePlaylist, wrapPlaylistIndex, type PlaylistEntry } from "@/lib/session-shared";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -13,8 +17,10 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
 import { Label } from "@/components/ui/label";
-import { Copy, Upload } from "lucide-react";
+import { AlertTriangle, Copy, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/components/ui/use-toast";
 import {
   Dialog,
@@ -25,20 +31,167 @@ import {
 } from "@/components/ui/dialog";
 import { sectionVariants } from "@/utils/animations";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { Link } from "react-router-dom";
+import { SessionPlaylist } from "@/components/session-playlist";
+import { TransitionSettings } from "@/components/transition-settings";
+import { DEFAULT_TRANSITION, parseTransition, type TransitionSettings as TransitionSettingsValue } from "@/lib/transitions";
+import { LayoutSettings } from "@/components/layout-settings";
+import { CanvasPreview } from "@/components/canvas-preview";
+import { DEFAULT_LAYOUT, parseLayout, type LayoutSettings as LayoutSettingsValue } from "@/lib/layout";
+import { OverlayLayer } from "@/components/overlay-layer";
+import { SessionLayers } from "@/components/session-layers";
+import { CaptionOverlay } from "@/components/caption-overlay";
+import { CaptionSettings } from "@/components/caption-settings";
+import { DEFAULT_CAPTION, parseCaption, type CaptionSettings as CaptionSettingsValue } from "@/lib/caption";
+import {
+  MAIN_LAYER_Z_INDEX,
+  createLayer,
+  moveLayer,
+  parseLayers,
+  sortLayers,
+  type SessionLayer,
+} from "@/lib/layers";
+import { MediaSettings } from "@/components/media-settings";
+import {
+  DEFAULT_MEDIA_OPTIONS,
+  MEDIA_ACCEPT,
+  getFileMediaType,
+  parseMediaOptions,
+  parseMediaType,
+  type MediaOptions,
+  type MediaType,
+  type TransferredMedia,
+} from "@/lib/media";
+import { cn } from "@/lib/utils";
+import { CountdownOverlay } from "@/components/countdown-overlay";
+import { CountdownSettings } from "@/components/countdown-settings";
+import {
+  DEFAULT_COUNTDOWN,
+  parseCountdown,
+  type CountdownSettings as CountdownSettingsValue,
+} from "@/lib/countdown";
+import { ScheduleSettings } from "@/components/schedule-settings";
+import { useScheduleRunner } from "@/hooks/use-schedule-runner";
+import { useServerTimeOffset } from "@/hooks/use-server-time-offset";
+import { EMPTY_SCHEDULE, parseSchedule, type ScheduledAction, type SessionSchedule } from "@/lib/schedules";
+import { SessionSlugField } from "@/components/session-slug-field";
+import { ControlApiLinks } from "@/components/control-api-links";
+import { UploadSettingsMenu } from "@/components/upload-settings-menu";
+import { MediaLibrary } from "@/components/media-library";
+import { FallbackImageSettings } from "@/components/fallback-image-settings";
+import { SourcePresenceIndicator } from "@/components/source-presence-indicator";
+import { useSourcePresence } from "@/hooks/use-source-presence";
+import type { LibraryItem } from "@/lib/media-library";
+import { HotkeyCheatSheet } from "@/components/hotkey-cheat-sheet";
+import { useHotkeys, type HotkeyHandlers } from "@/hooks/use-hotkeys";
+import { useSessionUpdates } from "@/hooks/use-session-updates";
+import { useMediaInput, type MediaInputHandler } from "@/hooks/use-media-input";
+import { getStoredSession } from "@/lib/session-store";
+import { Link, useSearchParams } from "react-router-dom";
 
 const Index = () => {
   const sb = supabase;
   const [imageUrl, setImageUrl] = useState<string>("");
   const [inputUrl, setInputUrl] = useState<string>("");
-  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [session, setSession] = useState<SessionControl | null>(null);
   const [isRevealed, setIsRevealed] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const changeFileInputRef = useRef<HTMLInputElement>(null);
   const [changeUrl, setChangeUrl] = useState<string>("");
   const [isChangeDialogOpen, setIsChangeDialogOpen] = useState(false);
   const [shouldRevealOnLoad, setShouldRevealOnLoad] = useState(false);
+  const [playlist, setPlaylist] = useState<PlaylistEntry[]>([]);
+  const [playlistIndex, setPlaylistIndex] = useState(0);
+  const [autoAdvanceSeconds, setAutoAdvanceSeconds] = useState<number | null>(null);
+  const [transition, setTransition] = useState<TransitionSettingsValue>(DEFAULT_TRANSITION);
+  const [layout, setLayout] = useState<LayoutSettingsValue>(DEFAULT_LAYOUT);
+  const [layers, setLayers] = useState<SessionLayer[]>([]);
+  const [caption, setCaption] = useState<CaptionSettingsValue>(DEFAULT_CAPTION);
+  const [mediaType, setMediaType] = useState<MediaType>("image");
+  const [mediaOptions, setMediaOptions] = useState<MediaOptions>(DEFAULT_MEDIA_OPTIONS);
+  const [slug, setSlug] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<SessionSchedule>(EMPTY_SCHEDULE);
+  const [countdown, setCountdown] = useState<CountdownSettingsValue>(DEFAULT_COUNTDOWN);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [fallbackUrl, setFallbackUrl] = useState<string | null>(null);
+  // Image URL a browser source reported as failing to load.
+  const [mediaErrorUrl, setMediaErrorUrl] = useState<string | null>(null);
+  const hotkeyHandlersRef = useRef<HotkeyHandlers>({});
+  const { bindings, setBinding, resetBindings } = useHotkeys(hotkeyHandlersRef);
+  const mediaInputHandlerRef = useRef<MediaInputHandler>();
+  const { isDragging, dropZoneProps } = useMediaInput(mediaInputHandlerRef);
+
+  // Reflect changes made outside this page, e.g. by the HTTP control API.
+  useSessionUpdates(session?.id ?? null, (row) => {
+    setIsRevealed(row.is_revealed === true);
+    setImageUrl(typeof row.image_url === "string" ? row.image_url : "");
+    setMediaType(parseMediaType(row.media_type));
+    setPlaylist(parsePlaylist(row.playlist));
+    setPlaylistIndex(typeof row.playlist_index === "number" ? row.playlist_index : 0);
+    setSchedule(parseSchedule(row));
+    setMediaErrorUrl(typeof row.media_error_url === "string" ? row.media_error_url : null);
+  });
+  const clockOffset = useServerTimeOffset();
+  const sources = useSourcePresence(session?.id ?? null);
+  useScheduleRunner(session?.id ?? null, schedule, clockOffset);
   const { toast } = useToast();
+  // The open session lives in the URL so a reload (or the dashboard) can
+  // reopen it with the control token stored in this browser.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedSessionId = searchParams.get("session");
+
+  /** Loads every controller field from a session row; null resets them. */
+  const applySessionRow = useCallback((row: Record<string, unknown> | null) => {
+    setImageUrl(typeof row?.image_url === "string" ? row.image_url : "");
+    setIsRevealed(row?.is_revealed === true);
+    setMediaType(parseMediaType(row?.media_type));
+    setMediaOptions(parseMediaOptions(row?.media_options));
+    setPlaylist(parsePlaylist(row?.playlist));
+    setPlaylistIndex(typeof row?.playlist_index === "number" ? row.playlist_index : 0);
+    setAutoAdvanceSeconds(typeof row?.auto_advance_seconds === "number" ? row.auto_advance_seconds : null);
+    setTransition(parseTransition(row?.transition));
+    setLayout(parseLayout(row?.layout));
+    setLayers(parseLayers(row?.layers));
+    setCaption(parseCaption(row?.caption));
+    setSlug(typeof row?.slug === "string" ? row.slug : null);
+    setSchedule(parseSchedule(row));
+    setCountdown(parseCountdown(row?.countdown));
+    setFallbackUrl(typeof row?.fallback_url === "string" && row.fallback_url ? row.fallback_url : null);
+    setMediaErrorUrl(typeof row?.media_error_url === "string" ? row.media_error_url : null);
+  }, []);
+
+  useEffect(() => {
+    if (!sb || !requestedSessionId || requestedSessionId === session?.id) return;
+    const stored = getStoredSession(requestedSessionId);
+    if (!stored) {
+      toast({
+        variant: "destructive",
+        title: "Session Unavailable",
+        description: "This browser doesn't have the control token for that session.",
+      });
+      setSearchParams({}, { replace: true });
+      return;
+    }
+    let isCurrent = true;
+    void (async () => {
+      const { data, error } = await sb.from("sessions").select("*").eq("id", stored.id).maybeSingle();
+      if (!isCurrent) return;
+      if (error || !data) {
+        console.error("Failed to load session:", error);
+        toast({
+          variant: "destructive",
+          title: "Session Error",
+          description: "Could not load that session. It may have been deleted.",
+        });
+        setSearchParams({}, { replace: true });
+        return;
+      }
+      setSession(stored);
+      applySessionRow(data);
+    })();
+    return () => {
+      isCurrent = false;
+    };
+  }, [sb, requestedSessionId, session?.id, toast, setSearchParams, applySessionRow]);
 
   if (!sb) {
     return (
@@ -66,15 +219,79 @@ const Index = () => {
   }
 
   const client = sb as NonNullable<typeof sb>;
+  const sessionId = session?.id ?? null;
 
-  const generateSession = async (newImageUrl: string) => {
-    const newSessionId = Math.random().toString(36).substring(2, 10);
+  const showInvalidFileType = () =>
+    toast({
+      variant: "destructive",
+      title: "Invalid File Type",
+      description: "Please select an image or an MP4/WebM video.",
+    });
 
-    const { error } = await client
-      .from("sessions")
-      .upsert({ id: newSessionId, image_url: newImageUrl, is_revealed: false });
+  const showUploadFailed = (description: string) =>
+    toast({
+      variant: "destructive",
+      title: "Upload Failed",
+      description,
+    });
 
-    if (error) {
+  /** Validates and uploads a picked file, reporting problems with a toast. */
+  const uploadMediaFile = async (file: File): Promise<PlaylistEntry | null> => {
+    const fileMediaType = getFileMediaType(file);
+    if (!fileMediaType) {
+      showInvalidFileType();
+      return null;
+    }
+    setUploadProgress(0);
+    const { publicUrl, error } = await uploadImage(file, {
+      onProgress: setUploadProgress,
+      targetWidth: layout.canvasWidth,
+      targetHeight: layout.canvasHeight,
+    });
+    setUploadProgress(null);
+    if (!publicUrl) {
+      showUploadFailed(error ?? "Could not upload the file. Please try again.");
+      return null;
+    }
+    return { url: publicUrl, mediaType: fileMediaType };
+  };
+
+  /** Checks a typed or dropped link with the inspect route, reporting problems with a toast. */
+  const checkMediaUrl = async (url: string): Promise<PlaylistEntry | null> => {
+    try {
+      new URL(url);
+    } catch (_) {
+      toast({
+        variant: "destructive",
+        title: "Invalid URL",
+        description: "Please enter a valid image URL.",
+      });
+      return null;
+    }
+    const { media, error } = await checkRemoteMedia(url, {
+      cache: loadUploadSettings().cacheRemoteMedia,
+      session,
+    });
+    if (!media) {
+      toast({
+        variant: "destructive",
+        title: "Link Not Usable",
+        description: error ?? "That link doesn't point to an image.",
+      });
+      return null;
+    }
+    return { url: media.url, mediaType: media.mediaType };
+  };
+
+  const generateSession = async (newImageUrl: string, newMediaType: MediaType = "image") => {
+    const entry: PlaylistEntry = { url: newImageUrl, mediaType: newMediaType };
+    const { session: newSession, error } = await createSession(
+      client,
+      newImageUrl,
+      newMediaType === "video" ? { media_type: newMediaType, playlist: [entry] } : {},
+    );
+
+    if (error || !newSession) {
       console.error("Failed to create session:", error);
       toast({
         variant: "destructive",
@@ -84,128 +301,321 @@ const Index = () => {
       return;
     }
 
-    setSessionId(newSessionId);
-    setImageUrl(newImageUrl);
-    setIsRevealed(false);
+    setSession(newSession);
+    applySessionRow({ image_url: newImageUrl, media_type: newMediaType, playlist: [entry] });
+    setSearchParams({ session: newSession.id }, { replace: true });
   };
 
   const handleUrlSubmit = async () => {
-    if (inputUrl.trim()) {
-      try {
-        new URL(inputUrl.trim());
-        await generateSession(inputUrl.trim());
-      } catch (_) {
-        toast({
-          variant: "destructive",
-          title: "Invalid URL",
-          description: "Please enter a valid image URL.",
-        });
-      }
+    if (!inputUrl.trim()) return;
+    const checked = await checkMediaUrl(inputUrl.trim());
+    if (checked) {
+      await generateSession(checked.url, checked.mediaType);
     }
   };
 
   const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type.startsWith("image/")) {
-      const publicUrl = await uploadImage(file);
-      if (publicUrl) {
-        await generateSession(publicUrl);
-      } else {
-        toast({
-          variant: "destructive",
-          title: "Upload Failed",
-          description: "Could not upload image. Please try again.",
-        });
-      }
-    } else if (file) {
-      toast({
-        variant: "destructive",
-        title: "Invalid File Type",
-        description: "Please select an image file.",
-      });
+    if (!file) return;
+    const uploaded = await uploadMediaFile(file);
+    if (uploaded) {
+      await generateSession(uploaded.url, uploaded.mediaType);
     }
   };
 
   const toggleReveal = async (checked: boolean) => {
-    if (sessionId && imageUrl) {
+    if (session && imageUrl) {
       setIsRevealed(checked);
-      const { error } = await client
-        .from("sessions")
-        .update({ is_revealed: checked })
-        .eq("id", sessionId);
+      const { error } = await updateSession(client, session, { is_revealed: checked });
       if (error) {
         console.error("Failed to update session:", error);
       }
     }
   };
 
-  const replaceImage = async (newImageUrl: string) => {
-    if (!sessionId) return;
+  const replaceImage = async (newImageUrl: string, newMediaType: MediaType) => {
+    if (!session) return;
 
+    const nextPlaylist = playlist.map((entry, index) =>
+      index === playlistIndex ? { url: newImageUrl, mediaType: newMediaType } : entry,
+    );
     setIsRevealed(false);
     setShouldRevealOnLoad(true);
-    await client
-      .from("sessions")
-      .update({ image_url: newImageUrl, is_revealed: false })
-      .eq("id", sessionId);
+    const { error } = await updateSession(client, session, {
+      image_url: newImageUrl,
+      media_type: newMediaType,
+      is_revealed: false,
+      playlist: nextPlaylist,
+    });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
     setImageUrl(newImageUrl);
+    setMediaType(newMediaType);
+    setPlaylist(nextPlaylist);
   };
 
   const handleImageLoad = async () => {
-    if (!sessionId || !shouldRevealOnLoad) return;
+    if (!session || !shouldRevealOnLoad) return;
 
     setShouldRevealOnLoad(false);
     setIsRevealed(true);
-    await client.from("sessions").update({ is_revealed: true }).eq("id", sessionId);
+    const { error } = await updateSession(client, session, { is_revealed: true });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const goToPlaylistEntry = async (index: number) => {
+    if (!session || !playlist.length) return;
+    const nextIndex = wrapPlaylistIndex(index, playlist.length);
+    const entry = playlist[nextIndex];
+    setPlaylistIndex(nextIndex);
+    setImageUrl(entry.url);
+    setMediaType(entry.mediaType ?? "image");
+    const { error } = await updateSession(client, session, {
+      image_url: entry.url,
+      media_type: entry.mediaType ?? "image",
+      playlist_index: nextIndex,
+    });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const savePlaylist = async (nextPlaylist: PlaylistEntry[], nextIndex: number) => {
+    if (!session) return;
+    const entry = nextPlaylist[nextIndex];
+    setPlaylist(nextPlaylist);
+    setPlaylistIndex(nextIndex);
+    setImageUrl(entry.url);
+    setMediaType(entry.mediaType ?? "image");
+    const { error } = await updateSession(client, session, {
+      playlist: nextPlaylist,
+      playlist_index: nextIndex,
+      image_url: entry.url,
+      media_type: entry.mediaType ?? "image",
+    });
+    if (error) {
+      console.error("Failed to update playlist:", error);
+    }
+  };
+
+  const addPlaylistUrl = async (url: string) => {
+    const checked = await checkMediaUrl(url);
+    if (checked) {
+      await savePlaylist([...playlist, checked], playlistIndex);
+    }
+  };
+
+  const addPlaylistFile = async (file: File) => {
+    const uploaded = await uploadMediaFile(file);
+    if (uploaded) {
+      await savePlaylist([...playlist, uploaded], playlistIndex);
+    }
+  };
+
+  const removePlaylistEntry = async (index: number) => {
+    if (playlist.length < 2) return;
+    const nextPlaylist = playlist.filter((_, entryIndex) => entryIndex !== index);
+    const nextIndex = index < playlistIndex ? playlistIndex - 1 : wrapPlaylistIndex(playlistIndex, nextPlaylist.length);
+    await savePlaylist(nextPlaylist, nextIndex);
+  };
+
+  const changeAutoAdvance = async (seconds: number | null) => {
+    if (!session) return;
+    setAutoAdvanceSeconds(seconds);
+    const { error } = await updateSession(client, session, { auto_advance_seconds: seconds });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const changeMediaOptions = async (next: MediaOptions) => {
+    if (!session) return;
+    setMediaOptions(next);
+    const { error } = await updateSession(client, session, { media_options: next });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const scheduleAction = async (action: ScheduledAction, at: Date) => {
+    if (!session) return;
+    setSchedule((prev) => ({ ...prev, scheduledAction: action, scheduledAt: at.toISOString() }));
+    const { error } = await updateSession(client, session, {
+      scheduled_action: action,
+      scheduled_at: at.toISOString(),
+    });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const cancelSchedule = async () => {
+    if (!session) return;
+    setSchedule((prev) => ({ ...prev, scheduledAction: null, scheduledAt: null }));
+    const { error } = await updateSession(client, session, { scheduled_action: null, scheduled_at: null });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const changeAutoHide = async (seconds: number | null) => {
+    if (!session) return;
+    setSchedule((prev) => ({ ...prev, autoHideSeconds: seconds }));
+    const { error } = await updateSession(client, session, { auto_hide_seconds: seconds });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const revealFor = async (seconds: number) => {
+    if (!session) return;
+    const hideAt = new Date(Date.now() + clockOffset + seconds * 1000).toISOString();
+    setIsRevealed(true);
+    setSchedule((prev) => ({ ...prev, hideAt }));
+    const { error } = await updateSession(client, session, { is_revealed: true, hide_at: hideAt });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const changeCountdown = async (next: CountdownSettingsValue) => {
+    if (!session) return;
+    setCountdown(next);
+    const { error } = await updateSession(client, session, { countdown: next });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const changeTransition = async (next: TransitionSettingsValue) => {
+    if (!session) return;
+    setTransition(next);
+    const { error } = await updateSession(client, session, { transition: next });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const changeLayout = async (next: LayoutSettingsValue) => {
+    if (!session) return;
+    setLayout(next);
+    const { error } = await updateSession(client, session, { layout: next });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const changeCaption = async (next: CaptionSettingsValue) => {
+    if (!session) return;
+    setCaption(next);
+    const { error } = await updateSession(client, session, { caption: next });
+    if (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const changeFallback = async (url: string | null) => {
+    if (!session) return false;
+    const checked = url ? await checkMediaUrl(url) : null;
+    if (url && !checked) return false;
+    const { error } = await updateSession(client, session, { fallback_url: checked?.url ?? null });
+    if (error) {
+      console.error("Failed to update session:", error);
+      return false;
+    }
+    setFallbackUrl(checked?.url ?? null);
+    return true;
+  };
+
+  const saveLayers = async (nextLayers: SessionLayer[]) => {
+    if (!session) return;
+    setLayers(nextLayers);
+    const { error } = await updateSession(client, session, { layers: nextLayers });
+    if (error) {
+      console.error("Failed to update layers:", error);
+    }
+  };
+
+  const addLayerUrl = async (url: string) => {
+    const checked = await checkMediaUrl(url);
+    if (checked) {
+      await saveLayers([...layers, createLayer(checked.url, layers, checked.mediaType)]);
+    }
+  };
+
+  const addLayerFile = async (file: File) => {
+    const uploaded = await uploadMediaFile(file);
+    if (uploaded) {
+      await saveLayers([...layers, createLayer(uploaded.url, layers, uploaded.mediaType)]);
+    }
   };
 
+  const changeLayer = (layer: SessionLayer) =>
+    saveLayers(layers.map((existing) => (existing.id === layer.id ? layer : existing)));
+
+  const removeLayer = (layerId: string) => saveLayers(layers.filter((layer) => layer.id !== layerId));
+
   const handleChangeUrlSubmit = async () => {
-    if (changeUrl.trim()) {
-      try {
-        new URL(changeUrl.trim());
-        await replaceImage(changeUrl.trim());
-        setChangeUrl("");
-        setIsChangeDialogOpen(false);
-      } catch (_) {
-        toast({
-          variant: "destructive",
-          title: "Invalid URL",
-          description: "Please enter a valid image URL.",
-        });
-      }
+    if (!changeUrl.trim()) return;
+    const checked = await checkMediaUrl(changeUrl.trim());
+    if (checked) {
+      await replaceImage(checked.url, checked.mediaType);
+      setChangeUrl("");
+      setIsChangeDialogOpen(false);
     }
   };
 
   const handleChangeFile = async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type.startsWith("image/")) {
-      const publicUrl = await uploadImage(file);
-      if (publicUrl) {
-        await replaceImage(publicUrl);
-        setIsChangeDialogOpen(false);
-      } else {
-        toast({
-          variant: "destructive",
-          title: "Upload Failed",
-          description: "Could not upload image. Please try again.",
-        });
-      }
-    } else if (file) {
-      toast({
-        variant: "destructive",
-        title: "Invalid File Type",
-        description: "Please select an image file.",
-      });
+    const uploaded = file ? await uploadMediaFile(file) : null;
+    if (uploaded) {
+      await replaceImage(uploaded.url, uploaded.mediaType);
+      setIsChangeDialogOpen(false);
     }
     if (changeFileInputRef.current) {
       changeFileInputRef.current.value = "";
     }
   };
 
+  const selectLibraryItem = async (item: LibraryItem) => {
+    await replaceImage(item.url, item.mediaType);
+    setIsChangeDialogOpen(false);
+  };
+
+  /** Drops and pastes start a session, or replace the image of the open one. */
+  const handleTransferredMedia = async (media: TransferredMedia) => {
+    const entry = media.file ? await uploadMediaFile(media.file) : await checkMediaUrl(media.url);
+    if (!entry) return;
+    if (session) {
+      await replaceImage(entry.url, entry.mediaType ?? "image");
+      setIsChangeDialogOpen(false);
+    } else {
+      await generateSession(entry.url, entry.mediaType);
+    }
+  };
+
+  // One upload at a time; drops and pastes during an upload are ignored.
+  mediaInputHandlerRef.current =
+    uploadProgress === null ? (media) => void handleTransferredMedia(media) : undefined;
+
   const browserSourceUrl = sessionId
-    ? `${window.location.origin}/source/${sessionId}`
+    ? `${window.location.origin}/source/${slug ?? sessionId}`
     : "";
 
+  const changeSlug = async (nextSlug: string | null) => {
+    if (!session) return null;
+    const { error } = await setSessionSlug(client, session, nextSlug);
+    if (error) {
+      console.error("Failed to update slug:", error);
+      return error.message;
+    }
+    setSlug(nextSlug);
+    return null;
+  };
+
   const copyToClipboard = () => {
     if (browserSourceUrl) {
       navigator.clipboard.writeText(browserSourceUrl);
@@ -216,9 +626,26 @@ const Index = () => {
     }
   };
 
+  hotkeyHandlersRef.current = session
+    ? {
+        toggleReveal: () => void toggleReveal(!isRevealed),
+        next: playlist.length > 1 ? () => void goToPlaylistEntry(playlistIndex + 1) : undefined,
+        previous: playlist.length > 1 ? () => void goToPlaylistEntry(playlistIndex - 1) : undefined,
+        changeImage: () => setIsChangeDialogOpen(true),
+        copyUrl: copyToClipboard,
+      }
+    : {};
+
   return (
     <div className="min-h-screen bg-background text-foreground flex flex-col items-center justify-center p-4 md:p-8 relative">
-      <div className="absolute top-4 right-4">
+      <div className="absolute top-4 right-4 flex gap-2">
+        <UploadSettingsMenu />
+        <HotkeyCheatSheet
+          bindings={bindings}
+          actions={["toggleReveal", "next", "previous", "changeImage", "copyUrl"]}
+          onBind={setBinding}
+          onReset={resetBindings}
+        />
         <ThemeToggle />
       </div>
       <motion.div
@@ -227,20 +654,37 @@ const Index = () => {
         animate="visible"
         whileHover="hover"
         className="w-full max-w-2xl"
+        {...dropZoneProps}
       >
-        <Card className="bg-card border border-primary/50 shadow-lg shadow-[0_0_15px_hsl(var(--glow)/0.2)]">
+        <Card
+          className={cn(
+            "bg-card border border-primary/50 shadow-lg shadow-[0_0_15px_hsl(var(--glow)/0.2)] transition",
+            isDragging && !isChangeDialogOpen && "ring-2 ring-primary",
+          )}
+        >
           <CardHeader>
             <CardTitle className="text-3xl">Image Browser Source</CardTitle>
             <CardDescription>
               Create a browser source for your images to use in OBS Studio.
             </CardDescription>
-            <div>
+            <div className="flex flex-wrap gap-x-6">
               <Button asChild variant="link" className="px-0 text-primary hover:text-primary/80">
                 <Link to="/elestrals">Looking for Elestrals cards? Try the card finder.</Link>
               </Button>
+              <Button asChild variant="link" className="px-0 text-primary hover:text-primary/80">
+                <Link to="/sessions">Your browser sources</Link>
+              </Button>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
+          {uploadProgress !== null && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">
+                {uploadProgress > 0 ? `Uploading… ${uploadProgress}%` : "Preparing upload…"}
+              </p>
+              <Progress value={uploadProgress} className="h-2" />
+            </div>
+          )}
           {!sessionId ? (
             <div className="space-y-4">
               <div>
@@ -278,7 +722,7 @@ const Index = () => {
                   ref={fileInputRef}
                   onChange={handleFileChange}
                   className="hidden"
-                  accept="image/*"
+                  accept={MEDIA_ACCEPT}
                 />
                 <Button
                   variant="outline"
@@ -289,11 +733,18 @@ const Index = () => {
                   Upload from device
                 </Button>
               </div>
+              <p className="text-center text-sm text-muted-foreground">
+                You can also drop a file or link onto this card, or paste one with Ctrl+V.
+              </p>
+              <MediaLibrary onSelect={(item) => generateSession(item.url, item.mediaType)} />
             </div>
           ) : (
             <div className="space-y-6">
               <div>
-                <Label>Browser Source URL</Label>
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <Label>Browser Source URL</Label>
+                  <SourcePresenceIndicator sources={sources} currentUrl={imageUrl} />
+                </div>
                 <div className="flex gap-2">
                   <Input
                     readOnly
@@ -314,11 +765,27 @@ const Index = () => {
                 </p>
               </div>
 
+              <SessionSlugField key={`${sessionId}:${slug ?? ""}`} slug={slug} onSave={changeSlug} />
+
+              {mediaErrorUrl && mediaErrorUrl === imageUrl && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Source failed to load image</AlertTitle>
+                  <AlertDescription>
+                    A browser source couldn't load the current image and is showing{" "}
+                    {fallbackUrl ? "the fallback image" : "nothing"} while it retries. Check the link or change
+                    the image.
+                  </AlertDescription>
+                </Alert>
+              )}
+
                 <div className="flex items-center justify-between rounded-lg border border-primary/50 p-4 bg-muted">
                 <div className="space-y-0.5">
                   <Label htmlFor="reveal-switch" className="text-base">Reveal Image</Label>
                   <p className="text-sm text-muted-foreground">
-                    Toggle to show or hide the image on stream.
+                    {sources.length
+                      ? "Toggle to show or hide the image on stream."
+                      : "No browser source is open, so a reveal won't appear on stream yet."}
                   </p>
                 </div>
                 <Switch
@@ -328,6 +795,57 @@ const Index = () => {
                 />
               </div>
 
+              <ScheduleSettings
+                value={schedule}
+                onSchedule={scheduleAction}
+                onCancelSchedule={cancelSchedule}
+                onAutoHideChange={changeAutoHide}
+                onRevealFor={revealFor}
+                clockOffset={clockOffset}
+              />
+
+              <CountdownSettings value={countdown} onChange={changeCountdown} />
+
+              <SessionPlaylist
+                entries={playlist}
+                currentIndex={playlistIndex}
+                autoAdvanceSeconds={autoAdvanceSeconds}
+                onSelect={goToPlaylistEntry}
+                onPrevious={() => goToPlaylistEntry(playlistIndex - 1)}
+                onNext={() => goToPlaylistEntry(playlistIndex + 1)}
+                onAddUrl={addPlaylistUrl}
+                onAddFile={addPlaylistFile}
+                onRemove={removePlaylistEntry}
+                onAutoAdvanceChange={changeAutoAdvance}
+              />
+
+              {mediaType === "video" && (
+                <MediaSettings value={mediaOptions} onChange={changeMediaOptions} />
+              )}
+
+              <FallbackImageSettings
+                key={`${sessionId}:${fallbackUrl ?? ""}`}
+                value={fallbackUrl}
+                onSave={changeFallback}
+              />
+
+              <TransitionSettings value={transition} onChange={changeTransition} />
+
+              <LayoutSettings value={layout} onChange={changeLayout} />
+
+              <CaptionSettings value={caption} onChange={changeCaption} />
+
+              <SessionLayers
+                layers={layers}
+                onAddUrl={addLayerUrl}
+                onAddFile={addLayerFile}
+                onChange={changeLayer}
+                onRemove={removeLayer}
+                onMove={(layerId, direction) => saveLayers(moveLayer(layers, layerId, direction))}
+              />
+
+              {session && <ControlApiLinks session={session} />}
+
               {imageUrl && (
                 <motion.div
                   variants={sectionVariants}
@@ -336,24 +854,42 @@ const Index = () => {
                   whileHover="hover"
                 >
                   <Label>Image Preview</Label>
-                  <div className="mt-2 rounded-md border border-primary/50 aspect-video w-full flex items-center justify-center bg-muted overflow-hidden p-4 shadow-inner shadow-[0_0_15px_hsl(var(--glow)/0.2)]">
-                    <AnimatePresence mode="wait">
-                      <motion.img
-                        key={imageUrl}
-                        src={imageUrl}
-                        alt="Preview"
-                        onLoad={handleImageLoad}
-                        className="max-h-full max-w-full object-contain"
-                        initial={{ opacity: 0, scale: 0.97 }}
-                        animate={{
-                          opacity: isRevealed ? 1 : 0,
-                          scale: isRevealed ? 1 : 0.97,
-                        }}
-                        exit={{ opacity: 0, scale: 0.97 }}
-                        transition={{ duration: 0.45, ease: "easeOut" }}
+                  <CanvasPreview
+                    canvasWidth={layout.canvasWidth}
+                    canvasHeight={layout.canvasHeight}
+                    className="mt-2 rounded-md border border-primary/50 bg-muted shadow-inner shadow-[0_0_15px_hsl(var(--glow)/0.2)]"
+                  >
+                    <OverlayLayer
+                      url={imageUrl}
+                      alt="Preview"
+                      mediaType={mediaType}
+                      mediaOptions={mediaOptions}
+                      onLoad={handleImageLoad}
+                      isRevealed={isRevealed}
+                      zIndex={MAIN_LAYER_Z_INDEX}
+                      layout={layout}
+                      transition={transition}
+                    />
+                    {sortLayers(layers).map((layer) => (
+                      <OverlayLayer
+                        key={layer.id}
+                        url={layer.url}
+                        alt={layer.name}
+                        mediaType={layer.mediaType}
+                        isRevealed={layer.isRevealed}
+                        zIndex={layer.zIndex}
+                        layout={layer.layout}
+                        transition={layer.transition}
                       />
-                    </AnimatePresence>
-                  </div>
+                    ))}
+                    <CaptionOverlay caption={caption} isRevealed={isRevealed} transition={transition} />
+                    <CountdownOverlay
+                      countdown={countdown}
+                      caption={caption}
+                      revealAt={schedule.scheduledAction === "reveal" ? schedule.scheduledAt : null}
+                      clockOffset={clockOffset}
+                    />
+                  </CanvasPreview>
                 </motion.div>
               )}
             </div>
@@ -378,14 +914,12 @@ const Index = () => {
                 <Button
                   variant="link"
                     className="text-primary hover:text-primary/80"
-                  onClick={async () => {
-                    if (sessionId) {
-                      await client.from("sessions").delete().eq("id", sessionId);
-                    }
-                    setSessionId(null);
-                    setImageUrl("");
+                  onClick={() => {
+                    // The session stays live and listed on the dashboard.
+                    setSession(null);
                     setInputUrl("");
-                    setIsRevealed(false);
+                    applySessionRow(null);
+                    setSearchParams({});
                   }}
                 >
                   Start over with a new image
@@ -398,11 +932,14 @@ const Index = () => {
       </motion.div>
 
       <Dialog open={isChangeDialogOpen} onOpenChange={setIsChangeDialogOpen}>
-        <DialogContent>
+        <DialogContent
+          className={cn("max-h-[90vh] overflow-y-auto transition", isDragging && "ring-2 ring-primary")}
+          {...dropZoneProps}
+        >
           <DialogHeader>
             <DialogTitle>Change image</DialogTitle>
             <DialogDescription>
-              Enter a new image URL or upload a file.
+              Enter a new image URL, upload, drop or paste a file, or pick one from your library.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -439,7 +976,7 @@ const Index = () => {
                 ref={changeFileInputRef}
                 onChange={handleChangeFile}
                 className="hidden"
-                accept="image/*"
+                accept={MEDIA_ACCEPT}
               />
               <Button
                 variant="outline"
@@ -450,6 +987,7 @@ const Index = () => {
                 Upload from device
               </Button>
             </div>
+            <MediaLibrary currentUrl={imageUrl} onSelect={selectLibraryItem} />
           </div>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Archive, ArchiveRestore, Copy, ExternalLink, Trash2 } from "lucide-react";
+import { supabase } from "@/lib/supabaseClient";
+import { deleteSession, duplicateSession, updateSession, type SessionControl } from "@/lib/sessions";
+import { forgetSession, loadStoredSessions } from "@/lib/session-store";
+import { parseMediaType, type MediaType } from "@/lib/media";
+import { sectionVariants } from "@/utils/animations";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { MediaThumbnail } from "@/components/media-thumbnail";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+
+interface SessionSummary {
+  session: SessionControl;
+  name: string | null;
+  slug: string | null;
+  imageUrl: string | null;
+  mediaType: MediaType;
+  isRevealed: boolean;
+  updatedAt: string | null;
+  archivedAt: string | null;
+}
+
+interface SessionSummaryRow {
+  id: string;
+  name: string | null;
+  slug: string | null;
+  image_url: string | null;
+  media_type: string | null;
+  is_revealed: boolean | null;
+  updated_at: string | null;
+  archived_at: string | null;
+}
+
+const displayName = (summary: SessionSummary) => summary.name?.trim() || `Source ${summary.session.id}`;
+
+const Sessions = () => {
+  const sb = supabase;
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [summaries, setSummaries] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const loadSummaries = useCallback(async () => {
+    if (!sb) return;
+    const stored = loadStoredSessions();
+    if (!stored.length) {
+      setSummaries([]);
+      setIsLoading(false);
+      return;
+    }
+    const { data, error } = await sb
+      .from("sessions")
+      .select("id, name, slug, image_url, media_type, is_revealed, updated_at, archived_at")
+      .in(
+        "id",
+        stored.map((session) => session.id),
+      );
+    setIsLoading(false);
+    if (error) {
+      console.error("Failed to load sessions:", error);
+      return;
+    }
+    const rows = new Map((data as SessionSummaryRow[]).map((row) => [row.id, row]));
+    // Sessions deleted elsewhere have nothing left to control.
+    stored.filter((session) => !rows.has(session.id)).forEach((session) => forgetSession(session.id));
+    setSummaries(
+      stored
+        .filter((session) => rows.has(session.id))
+        .map((session) => {
+          const row = rows.get(session.id) as SessionSummaryRow;
+          return {
+            session,
+            name: row.name,
+            slug: row.slug,
+            imageUrl: row.image_url,
+            mediaType: parseMediaType(row.media_type),
+            isRevealed: row.is_revealed ?? false,
+            updatedAt: row.updated_at,
+            archivedAt: row.archived_at,
+          };
+        }),
+    );
+  }, [sb]);
+
+  useEffect(() => {
+    void loadSummaries();
+  }, [loadSummaries]);
+
+  if (!sb) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 md:p-8 bg-background text-foreground">
+        <motion.div variants={sectionVariants} initial="hidden" animate="visible" whileHover="hover">
+          <Card className="bg-card border border-primary/50 shadow-lg shadow-[0_0_15px_hsl(var(--glow)/0.2)]">
+            <CardHeader>
+              <CardTitle>Configuration Error</CardTitle>
+              <CardDescription>Supabase environment variables are missing.</CardDescription>
+            </CardHeader>
+          </Card>
+        </motion.div>
+      </div>
+    );
+  }
+
+  const client = sb as NonNullable<typeof sb>;
+
+  const patchSummary = async (summary: SessionSummary, patch: Record<string, unknown>) => {
+    const { error } = await updateSession(client, summary.session, patch);
+    if (error) {
+      console.error("Failed to update session:", error);
+      toast({
+        variant: "destructive",
+        title: "Session Error",
+        description: "Could not update the session. Please try again.",
+      });
+      return;
+    }
+    await loadSummaries();
+  };
+
+  const renameSession = (summary: SessionSummary, name: string) => {
+    if (name === (summary.name ?? "")) return;
+    void patchSummary(summary, { name: name || null });
+  };
+
+  const copySession = async (summary: SessionSummary) => {
+    const { error } = await duplicateSession(client, summary.session, `${displayName(summary)} copy`);
+    if (error) {
+      console.error("Failed to duplicate session:", error);
+      toast({
+        variant: "destructive",
+        title: "Session Error",
+        description: "Could not duplicate the session. Please try again.",
+      });
+    }
+    await loadSummaries();
+  };
+
+  const removeSession = async (summary: SessionSummary) => {
+    const { error } = await deleteSession(client, summary.session);
+    if (error) {
+      console.error("Failed to delete session:", error);
+      toast({
+        variant: "destructive",
+        title: "Session Error",
+        description: "Could not delete the session. Please try again.",
+      });
+    }
+    await loadSummaries();
+  };
+
+  const visibleSummaries = summaries.filter((summary) => Boolean(summary.archivedAt) === showArchived);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex flex-col items-center justify-center p-4 md:p-8 relative">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <motion.div
+        variants={sectionVariants}
+        initial="hidden"
+        animate="visible"
+        whileHover="hover"
+        className="w-full max-w-3xl"
+      >
+        <Card className="bg-card border border-primary/50 shadow-lg shadow-[0_0_15px_hsl(var(--glow)/0.2)]">
+          <CardHeader>
+            <CardTitle className="text-3xl">Your browser sources</CardTitle>
+            <CardDescription>
+              Sessions created in this browser. Reopen one to keep controlling it after a reload.
+            </CardDescription>
+            <div>
+              <Button asChild variant="link" className="px-0 text-primary hover:text-primary/80">
+                <Link to="/">Create a new browser source</Link>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-end gap-2">
+              <Label htmlFor="show-archived">Show archived</Label>
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            </div>
+
+            {isLoading && <p className="text-sm text-muted-foreground">Loading sessions…</p>}
+            {!isLoading && !visibleSummaries.length && (
+              <p className="text-sm text-muted-foreground">
+                {showArchived ? "No archived sessions." : "No sessions yet. Create one to see it here."}
+              </p>
+            )}
+
+            <ul className="space-y-3">
+              {visibleSummaries.map((summary) => (
+                <li
+                  key={summary.session.id}
+                  className="flex flex-col gap-3 rounded-lg border border-primary/40 p-3 sm:flex-row sm:items-center"
+                >
+                  <div className="h-16 w-24 flex-shrink-0 overflow-hidden rounded border bg-muted">
+                    {summary.imageUrl && (
+                      <MediaThumbnail
+                        src={summary.imageUrl}
+                        alt={displayName(summary)}
+                        mediaType={summary.mediaType}
+                      />
+                    )}
+                  </div>
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <Input
+                      key={summary.name ?? ""}
+                      defaultValue={summary.name ?? ""}
+                      placeholder={`Source ${summary.session.id}`}
+                      aria-label="Session name"
+                      className="h-8"
+                      onBlur={(e) => renameSession(summary, e.target.value.trim())}
+                      onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                    />
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant={summary.isRevealed ? "default" : "secondary"}>
+                        {summary.isRevealed ? "Revealed" : "Hidden"}
+                      </Badge>
+                      <span className="font-mono">/source/{summary.slug ?? summary.session.id}</span>
+                      {summary.updatedAt && (
+                        <span>Updated {formatDistanceToNow(new Date(summary.updatedAt), { addSuffix: true })}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-1">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="border-primary text-primary hover:bg-primary/10"
+                      onClick={() => navigate(`/?session=${summary.session.id}`)}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      <span className="sr-only">Reopen</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="border-primary text-primary hover:bg-primary/10"
+                      onClick={() => copySession(summary)}
+                    >
+                      <Copy className="h-4 w-4" />
+                      <span className="sr-only">Duplicate</span>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="border-primary text-primary hover:bg-primary/10"
+                      onClick={() =>
+                        patchSummary(summary, { archived_at: summary.archivedAt ? null : new Date().toISOString() })
+                      }
+                    >
+                      {summary.archivedAt ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      <span className="sr-only">{summary.archivedAt ? "Restore" : "Archive"}</span>
+                    </Button>
+                    {summary.archivedAt && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="border-destructive text-destructive hover:bg-destructive/10"
+                        onClick={() => removeSession(summary)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete permanently</span>
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Sessions;
@@ -1,8 +1,25 @@
 import { useState, useEffect, useRef } from "react";
-import { AnimatePresence, motion } from "framer-motion";
+import { motion } from "framer-motion";
 import { sectionVariants } from "@/utils/animations";
 import { useParams } from "react-router-dom";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabaseClient";
+import { reportSourceMediaEnded, reportSourceMediaStatus, resolveSessionId } from "@/lib/sessions";
+import { parsePlaylist, wrapPlaylistIndex } from "@/lib/session-shared";
+import { parseTransition, type TransitionSettings } from "@/lib/transitions";
+import { parseLayout, type LayoutSettings } from "@/lib/layout";
+import { MAIN_LAYER_Z_INDEX, parseLayers, sortLayers, type SessionLayer } from "@/lib/layers";
+import { parseCaption, type CaptionSettings } from "@/lib/caption";
+import { EMPTY_SCHEDULE, parseSchedule, type SessionSchedule } from "@/lib/schedules";
+import { useScheduleRunner } from "@/hooks/use-schedule-runner";
+import { useServerTimeOffset } from "@/hooks/use-server-time-offset";
+import { useMediaLoadRetry } from "@/hooks/use-media-load-retry";
+import { useSourcePresenceReporter } from "@/hooks/use-source-presence";
+import { parseCountdown, type CountdownSettings } from "@/lib/countdown";
+import { CountdownOverlay } from "@/components/countdown-overlay";
+import { parseMediaOptions, parseMediaType, type MediaOptions, type MediaType } from "@/lib/media";
+import { OverlayLayer } from "@/components/overlay-layer";
+import { CaptionOverlay } from "@/components/caption-overlay";
 import {
   Card,
   CardDescription,
@@ -12,49 +29,288 @@ import {
 
 interface SourceData {
   imageUrl: string | null;
+  mediaType: MediaType;
+  mediaOptions: MediaOptions;
   isRevealed: boolean;
+  nextImageUrl: string | null;
+  nextMediaType: MediaType;
+  transition: TransitionSettings;
+  layout: LayoutSettings;
+  layers: SessionLayer[];
+  caption: CaptionSettings;
+  schedule: SessionSchedule;
+  countdown: CountdownSettings;
+  fallbackUrl: string | null;
+  mediaErrorUrl: string | null;
 }
 
+interface SessionRow {
+  slug: string | null;
+  image_url: string | null;
+  media_type: string | null;
+  media_options: unknown;
+  is_revealed: boolean | null;
+  playlist: unknown;
+  playlist_index: number | null;
+  transition: unknown;
+  layout: unknown;
+  layers: unknown;
+  caption: unknown;
+  scheduled_action: string | null;
+  scheduled_at: string | null;
+  hide_at: string | null;
+  advance_at: string | null;
+  countdown: unknown;
+  fallback_url: string | null;
+  media_error_url: string | null;
+}
+
+// Polling is only a fallback while the realtime channel is down.
+const POLL_INTERVAL_MS = 1000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// How often an unclaimed slug is looked up again, e.g. while its session is
+// being recreated.
+const RESOLVE_RETRY_MS = 5000;
+
+const toSourceData = (row: Partial<SessionRow> | null): SourceData => {
+  const playlist = parsePlaylist(row?.playlist);
+  const nextEntry =
+    playlist.length > 1 ? playlist[wrapPlaylistIndex((row?.playlist_index ?? 0) + 1, playlist.length)] : null;
+  return {
+    imageUrl: row?.image_url ?? null,
+    mediaType: parseMediaType(row?.media_type),
+    mediaOptions: parseMediaOptions(row?.media_options),
+    isRevealed: row?.is_revealed ?? false,
+    nextImageUrl: nextEntry?.url ?? null,
+    nextMediaType: nextEntry?.mediaType ?? "image",
+    transition: parseTransition(row?.transition),
+    layout: parseLayout(row?.layout),
+    layers: sortLayers(parseLayers(row?.layers)),
+    caption: parseCaption(row?.caption),
+    schedule: row ? parseSchedule(row as Record<string, unknown>) : EMPTY_SCHEDULE,
+    countdown: parseCountdown(row?.countdown),
+    fallbackUrl: row?.fallback_url || null,
+    mediaErrorUrl: row?.media_error_url ?? null,
+  };
+};
+
 const Source = () => {
-  const { sessionId } = useParams<{ sessionId: string }>();
+  // The route parameter is either a session id or a custom slug.
+  const { sessionId: idOrSlug } = useParams<{ sessionId: string }>();
   const sb = supabase;
-  const [data, setData] = useState<SourceData>({ imageUrl: null, isRevealed: false });
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [resolveCount, setResolveCount] = useState(0);
+  const [data, setData] = useState<SourceData>(() => toSourceData(null));
   const latestRequestId = useRef(0);
+  // Set when a play-once clip finishes; cleared on the next reveal or clip.
+  const [hasEnded, setHasEnded] = useState(false);
+
+  useEffect(() => {
+    if (!sb || !idOrSlug) return;
+    let isCurrent = true;
+    let retryTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    const resolve = async () => {
+      const resolved = await resolveSessionId(sb, idOrSlug);
+      if (!isCurrent) return;
+      setSessionId(resolved);
+      if (!resolved) {
+        setData(toSourceData(null));
+        retryTimeoutId = setTimeout(resolve, RESOLVE_RETRY_MS);
+      }
+    };
+    void resolve();
+    return () => {
+      isCurrent = false;
+      if (retryTimeoutId) {
+        clearTimeout(retryTimeoutId);
+      }
+    };
+  }, [sb, idOrSlug, resolveCount]);
 
   useEffect(() => {
     if (!sb || !sessionId) return;
 
+    // When the URL uses a slug, follow it if it moves to another session.
+    const hasLostSlug = (row: Partial<SessionRow> | null) =>
+      idOrSlug !== sessionId && row?.slug !== idOrSlug;
+
     let isMounted = true;
+    let channel: RealtimeChannel | null = null;
+    let pollIntervalId: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    let reconnectAttempts = 0;
 
     const load = async () => {
       const requestId = ++latestRequestId.current;
       const { data, error } = await sb
         .from("sessions")
-        .select("image_url, is_revealed")
+        .select("slug, image_url, media_type, media_options, is_revealed, playlist, playlist_index, transition, layout, layers, caption, scheduled_action, scheduled_at, hide_at, advance_at, countdown, fallback_url, media_error_url")
         .eq("id", sessionId)
-        .single();
+        .maybeSingle();
       if (error) {
         console.error("Failed to fetch session data:", error);
         return;
       }
-      // Discard this response if a newer poll has already been issued, so a
-      // slow request can't resolve late and revert the UI to stale data.
+      // Discard this response if a newer fetch or realtime update has arrived,
+      // so a slow request can't resolve late and revert the UI to stale data.
       if (isMounted && requestId === latestRequestId.current) {
-        setData({
-          imageUrl: data?.image_url ?? null,
-          isRevealed: data?.is_revealed ?? false,
-        });
+        if (hasLostSlug(data)) {
+          setResolveCount((count) => count + 1);
+          return;
+        }
+        setData(toSourceData(data));
       }
     };
 
+    const startPolling = () => {
+      if (pollIntervalId) return;
+      pollIntervalId = setInterval(load, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (!pollIntervalId) return;
+      clearInterval(pollIntervalId);
+      pollIntervalId = null;
+    };
+
+    const scheduleReconnect = () => {
+      if (!isMounted || reconnectTimeoutId) return;
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+      reconnectAttempts += 1;
+      reconnectTimeoutId = setTimeout(() => {
+        reconnectTimeoutId = null;
+        void subscribe();
+      }, delay);
+    };
+
+    const subscribe = async () => {
+      // Clear the reference first so status callbacks from the old channel are
+      // ignored while it closes.
+      const previous = channel;
+      channel = null;
+      if (previous) {
+        await sb.removeChannel(previous);
+      }
+      if (!isMounted) return;
+
+      const current = sb
+        .channel(`source:${sessionId}`)
+        .on<SessionRow>(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "sessions", filter: `id=eq.${sessionId}` },
+          (payload) => {
+            if (!isMounted) return;
+            // Invalidate any in-flight fetch so it can't overwrite the pushed row.
+            latestRequestId.current += 1;
+            const row = payload.eventType === "DELETE" ? null : payload.new;
+            if (hasLostSlug(row)) {
+              setResolveCount((count) => count + 1);
+              return;
+            }
+            setData(toSourceData(row));
+          },
+        )
+        .subscribe((status) => {
+          if (!isMounted || channel !== current) return;
+          if (status === "SUBSCRIBED") {
+            reconnectAttempts = 0;
+            stopPolling();
+            // Catch up on anything that changed while we were disconnected.
+            void load();
+            return;
+          }
+          if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+            startPolling();
+            scheduleReconnect();
+          }
+        });
+      channel = current;
+    };
+
     load();
-    const intervalId = setInterval(load, 1000);
+    void subscribe();
 
     return () => {
       isMounted = false;
-      clearInterval(intervalId);
+      stopPolling();
+      if (reconnectTimeoutId) {
+        clearTimeout(reconnectTimeoutId);
+      }
+      if (channel) {
+        void sb.removeChannel(channel);
+      }
     };
-  }, [sb, sessionId]);
+  }, [sb, sessionId, idOrSlug]);
+
+  // Open sources fire due schedules themselves so reveals land on time, using
+  // the database clock so every OBS machine agrees.
+  const clockOffset = useServerTimeOffset();
+  useScheduleRunner(sessionId, data.schedule, clockOffset);
+
+  // Warm the browser cache with the next playlist entry so advancing never
+  // waits on the network.
+  useEffect(() => {
+    if (!data.nextImageUrl) return;
+    if (data.nextMediaType === "video") {
+      const preload = document.createElement("video");
+      preload.preload = "auto";
+      preload.muted = true;
+      preload.src = data.nextImageUrl;
+      return;
+    }
+    const preload = new Image();
+    preload.src = data.nextImageUrl;
+  }, [data.nextImageUrl, data.nextMediaType]);
+
+  useEffect(() => {
+    if (!data.isRevealed) {
+      setHasEnded(false);
+    }
+  }, [data.isRevealed]);
+
+  useEffect(() => {
+    setHasEnded(false);
+  }, [data.imageUrl]);
+
+  // A broken image is swapped for the fallback (or nothing) while it is
+  // retried in the background, and the controller is told about it.
+  const mainMedia = useMediaLoadRetry(data.imageUrl, data.mediaType);
+  const [hasFallbackFailed, setHasFallbackFailed] = useState(false);
+  useEffect(() => {
+    setHasFallbackFailed(false);
+  }, [data.fallbackUrl]);
+
+  const isMediaErrorReported = Boolean(data.imageUrl) && data.mediaErrorUrl === data.imageUrl;
+  const reportMediaStatus = (failed: boolean) => {
+    if (!sb || !sessionId || !data.imageUrl || failed === isMediaErrorReported) return;
+    void reportSourceMediaStatus(sb, sessionId, data.imageUrl, failed).then(({ error }) => {
+      if (error) console.warn("Failed to report media status:", error);
+    });
+  };
+  const reportMediaStatusRef = useRef(reportMediaStatus);
+  reportMediaStatusRef.current = reportMediaStatus;
+
+  useEffect(() => {
+    if (mainMedia.hasFailed) reportMediaStatusRef.current(true);
+  }, [mainMedia.hasFailed]);
+
+  // Hides locally at once, and in the session so the controller (and any
+  // other source) follows.
+  const handleMediaEnded = () => {
+    if (!data.mediaOptions.hideOnEnd) return;
+    setHasEnded(true);
+    if (!sb || !sessionId || !data.imageUrl) return;
+    void reportSourceMediaEnded(sb, sessionId, data.imageUrl).then(({ error }) => {
+      if (error) console.warn("Failed to report the end of the clip:", error);
+    });
+  };
+
+  const fallbackUrl = hasFallbackFailed ? null : data.fallbackUrl;
+  useSourcePresenceReporter(sessionId, {
+    imageUrl: mainMedia.hasFailed ? null : data.imageUrl,
+    isShowingFallback: Boolean(data.imageUrl && mainMedia.hasFailed && fallbackUrl),
+  });
 
   if (!sb) {
     return (
@@ -78,27 +334,57 @@ const Source = () => {
     );
   }
 
-  if (!data.imageUrl) {
+  if (!data.imageUrl && !data.layers.length) {
     return null;
   }
 
   return (
-    <div className="fixed inset-0 flex items-center justify-center bg-transparent p-4">
-      <AnimatePresence mode="wait">
-        <motion.img
-          key={data.imageUrl}
-          src={data.imageUrl}
+    <div className="fixed inset-0 isolate bg-transparent">
+      {data.imageUrl && !mainMedia.hasFailed && (
+        <OverlayLayer
+          url={data.imageUrl}
           alt="Browser Source"
-          className="block max-w-full max-h-full object-contain"
-          initial={{ opacity: 0, scale: 0.97 }}
-          animate={{
-            opacity: data.isRevealed ? 1 : 0,
-            scale: data.isRevealed ? 1 : 0.97,
-          }}
-          exit={{ opacity: 0, scale: 0.97 }}
-          transition={{ duration: 0.45, ease: "easeOut" }}
+          mediaType={data.mediaType}
+          mediaOptions={data.mediaOptions}
+          isRevealed={data.isRevealed && !hasEnded}
+          zIndex={MAIN_LAYER_Z_INDEX}
+          layout={data.layout}
+          transition={data.transition}
+          onLoad={() => reportMediaStatus(false)}
+          onEnded={handleMediaEnded}
+          onError={mainMedia.handleError}
+        />
+      )}
+      {data.imageUrl && mainMedia.hasFailed && fallbackUrl && (
+        <OverlayLayer
+          url={fallbackUrl}
+          alt="Fallback"
+          isRevealed={data.isRevealed}
+          zIndex={MAIN_LAYER_Z_INDEX}
+          layout={data.layout}
+          transition={data.transition}
+          onError={() => setHasFallbackFailed(true)}
+        />
+      )}
+      {data.layers.map((layer) => (
+        <OverlayLayer
+          key={layer.id}
+          url={layer.url}
+          alt={layer.name}
+          mediaType={layer.mediaType}
+          isRevealed={layer.isRevealed}
+          zIndex={layer.zIndex}
+          layout={layer.layout}
+          transition={layer.transition}
         />
-      </AnimatePresence>
+      ))}
+      <CaptionOverlay caption={data.caption} isRevealed={data.isRevealed} transition={data.transition} />
+      <CountdownOverlay
+        countdown={data.countdown}
+        caption={data.caption}
+        revealAt={data.schedule.scheduledAction === "reveal" ? data.schedule.scheduledAt : null}
+        clockOffset={clockOffset}
+      />
     </div>
   );
 };
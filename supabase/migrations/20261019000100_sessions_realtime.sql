@@ -0,0 +1,21 @@
+-- Browser sources subscribe to their session row instead of polling, so the
+-- sessions table has to be part of the realtime publication.
+create table if not exists public.sessions (
+  id text primary key,
+  image_url text,
+  is_revealed boolean not null default false
+);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'sessions'
+  ) then
+    alter publication supabase_realtime add table public.sessions;
+  end if;
+end
+$$;
@@ -0,0 +1,81 @@
+-- Sessions are public to read (browser sources only know the session id), but
+-- every write has to present the secret control token issued at creation.
+-- Clients send it in the x-session-control-token request header; only a
+-- SHA-256 hash of it is stored.
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.session_controls (
+  session_id text primary key references public.sessions (id) on delete cascade,
+  token_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+-- No policies: the table is only reachable through the security definer
+-- functions below.
+alter table public.session_controls enable row level security;
+
+create or replace function public.request_control_token()
+returns text
+language sql
+stable
+as $$
+  select nullif(
+    coalesce(current_setting('request.headers', true), '{}')::json ->> 'x-session-control-token',
+    ''
+  )
+$$;
+
+create or replace function public.has_session_control(target_session_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select exists (
+    select 1
+    from public.session_controls c
+    where c.session_id = target_session_id
+      and c.token_hash = encode(digest(coalesce(public.request_control_token(), ''), 'sha256'), 'hex')
+  )
+$$;
+
+create or replace function public.create_session(new_session_id text, new_image_url text)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  control_token text := encode(gen_random_bytes(24), 'hex');
+begin
+  insert into public.sessions (id, image_url, is_revealed)
+  values (new_session_id, new_image_url, false);
+
+  insert into public.session_controls (session_id, token_hash)
+  values (new_session_id, encode(digest(control_token, 'sha256'), 'hex'));
+
+  return control_token;
+end
+$$;
+
+revoke all on function public.create_session(text, text) from public;
+grant execute on function public.create_session(text, text) to anon, authenticated;
+
+alter table public.sessions enable row level security;
+
+drop policy if exists "Sessions are readable by anyone" on public.sessions;
+create policy "Sessions are readable by anyone"
+  on public.sessions for select
+  using (true);
+
+drop policy if exists "Sessions are updatable with their control token" on public.sessions;
+create policy "Sessions are updatable with their control token"
+  on public.sessions for update
+  using (public.has_session_control(id))
+  with check (public.has_session_control(id));
+
+drop policy if exists "Sessions are deletable with their control token" on public.sessions;
+create policy "Sessions are deletable with their control token"
+  on public.sessions for delete
+  using (public.has_session_control(id));
@@ -0,0 +1,37 @@
+-- Each session carries an ordered playlist of images. image_url stays the
+-- entry currently on screen; playlist_index points at it so browser sources
+-- can preload the next one.
+alter table public.sessions
+  add column if not exists playlist jsonb not null default '[]'::jsonb,
+  add column if not exists playlist_index integer not null default 0,
+  add column if not exists auto_advance_seconds integer
+    check (auto_advance_seconds is null or auto_advance_seconds > 0);
+
+update public.sessions
+set playlist = jsonb_build_array(jsonb_build_object('url', image_url))
+where playlist = '[]'::jsonb
+  and image_url is not null;
+
+create or replace function public.create_session(new_session_id text, new_image_url text)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  control_token text := encode(gen_random_bytes(24), 'hex');
+begin
+  insert into public.sessions (id, image_url, is_revealed, playlist)
+  values (
+    new_session_id,
+    new_image_url,
+    false,
+    jsonb_build_array(jsonb_build_object('url', new_image_url))
+  );
+
+  insert into public.session_controls (session_id, token_hash)
+  values (new_session_id, encode(digest(control_token, 'sha256'), 'hex'));
+
+  return control_token;
+end
+$$;
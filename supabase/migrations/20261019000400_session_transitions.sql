@@ -0,0 +1,4 @@
+-- Reveal transition settings ({ preset, direction, duration, easing }).
+-- Missing keys fall back to the client defaults.
+alter table public.sessions
+  add column if not exists transition jsonb not null default '{}'::jsonb;
@@ -0,0 +1,5 @@
+-- Overlay layout ({ anchor, x, y, fit, maxWidth, maxHeight, padding,
+-- canvasWidth, canvasHeight }) in canvas pixels. Missing keys fall back to
+-- the client defaults, which match the original centred, padded layout.
+alter table public.sessions
+  add column if not exists layout jsonb not null default '{}'::jsonb;
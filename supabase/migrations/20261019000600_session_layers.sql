@@ -0,0 +1,5 @@
+-- Extra image layers drawn alongside the main image. Each entry is
+-- { id, name, url, isRevealed, zIndex, layout, transition }; the main image
+-- sits at z-order 0.
+alter table public.sessions
+  add column if not exists layers jsonb not null default '[]'::jsonb;
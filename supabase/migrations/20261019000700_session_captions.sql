@@ -0,0 +1,5 @@
+-- Caption text and styling ({ title, subtitle, body, font, fontSize, color,
+-- outlineColor, outlineWidth, shadow, placement, margin }). A caption with no
+-- text is not drawn.
+alter table public.sessions
+  add column if not exists caption jsonb not null default '{}'::jsonb;
@@ -0,0 +1,6 @@
+-- Sessions can show a video clip instead of a still image. Animated GIF,
+-- WebP and APNG stay "image" because <img> plays them natively.
+alter table public.sessions
+  add column if not exists media_type text not null default 'image'
+    check (media_type in ('image', 'video')),
+  add column if not exists media_options jsonb not null default '{}'::jsonb;
@@ -0,0 +1,24 @@
+-- Metadata for the session dashboard: a friendly name, soft archiving and
+-- timestamps. updated_at is maintained by a trigger so every write path
+-- (controller, control API, scheduled actions) bumps it.
+alter table public.sessions
+  add column if not exists name text,
+  add column if not exists archived_at timestamptz,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.touch_session_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end
+$$;
+
+drop trigger if exists sessions_touch_updated_at on public.sessions;
+create trigger sessions_touch_updated_at
+  before update on public.sessions
+  for each row
+  execute function public.touch_session_updated_at();
@@ -0,0 +1,42 @@
+-- Optional custom slugs so a browser source can live at a memorable URL such
+-- as /source/main-card-cam. Slugs share a namespace with session ids, must be
+-- unique and can't be reserved words. Keep the rules in sync with
+-- src/lib/slugs.ts.
+alter table public.sessions
+  add column if not exists slug text;
+
+create unique index if not exists sessions_slug_key on public.sessions (slug);
+
+alter table public.sessions drop constraint if exists sessions_slug_format;
+alter table public.sessions
+  add constraint sessions_slug_format check (
+    slug is null
+    or (
+      slug ~ '^[a-z0-9][a-z0-9-]{1,46}[a-z0-9]$'
+      and slug not like '%--%'
+      and slug not in ('admin', 'api', 'elestrals', 'new', 'preview', 'sessions', 'settings', 'source')
+    )
+  );
+
+create or replace function public.check_session_slug()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.slug is not null
+    and exists (select 1 from public.sessions s where s.id = new.slug and s.id <> new.id) then
+    raise exception 'Slug "%" is already in use', new.slug using errcode = '23505';
+  end if;
+  if tg_op = 'INSERT'
+    and exists (select 1 from public.sessions s where s.slug = new.id) then
+    raise exception 'Session id "%" is already in use as a slug', new.id using errcode = '23505';
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists sessions_check_slug on public.sessions;
+create trigger sessions_check_slug
+  before insert or update of slug on public.sessions
+  for each row
+  execute function public.check_session_slug();
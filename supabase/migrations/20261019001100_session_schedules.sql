@@ -0,0 +1,74 @@
+-- Timed reveals. A session can hold one pending reveal/hide at a wall-clock
+-- time (scheduled_action + scheduled_at), an auto-hide delay applied on every
+-- reveal (auto_hide_seconds) and the resulting hide deadline (hide_at).
+alter table public.sessions
+  add column if not exists scheduled_action text check (scheduled_action in ('reveal', 'hide')),
+  add column if not exists scheduled_at timestamptz,
+  add column if not exists auto_hide_seconds integer check (auto_hide_seconds > 0),
+  add column if not exists hide_at timestamptz;
+
+-- Keep hide_at consistent with is_revealed: a reveal starts the auto-hide
+-- countdown unless the writer set its own deadline ("reveal for X seconds"),
+-- and hiding clears it.
+create or replace function public.sync_session_hide_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not new.is_revealed then
+    new.hide_at := null;
+  elsif not coalesce(old.is_revealed, false)
+    and new.hide_at is not distinct from old.hide_at
+    and new.auto_hide_seconds is not null then
+    new.hide_at := now() + make_interval(secs => new.auto_hide_seconds);
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists sessions_sync_hide_at on public.sessions;
+create trigger sessions_sync_hide_at
+  before update on public.sessions
+  for each row
+  execute function public.sync_session_hide_at();
+
+-- Applies every schedule that is due. Anyone may call it: it only does what
+-- the session owner already scheduled. Open browser sources and controllers
+-- call it at the due moment for exact timing; pg_cron (below) covers the case
+-- where nothing is open.
+create or replace function public.apply_due_session_schedules(target_session_id text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.sessions
+  set is_revealed = (scheduled_action = 'reveal'),
+      scheduled_action = null,
+      scheduled_at = null
+  where scheduled_at <= now()
+    and (target_session_id is null or id = target_session_id);
+
+  update public.sessions
+  set is_revealed = false
+  where is_revealed
+    and hide_at <= now()
+    and (target_session_id is null or id = target_session_id);
+end
+$$;
+
+revoke all on function public.apply_due_session_schedules(text) from public;
+grant execute on function public.apply_due_session_schedules(text) to anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'apply-session-schedules',
+      '5 seconds',
+      'select public.apply_due_session_schedules()'
+    );
+  end if;
+end
+$$;
@@ -0,0 +1,17 @@
+-- Optional countdown drawn on the browser source before a scheduled reveal
+-- ({ enabled, label, placement, fontSize }); text styling comes from the
+-- caption.
+alter table public.sessions
+  add column if not exists countdown jsonb not null default '{}'::jsonb;
+
+-- Browser sources measure their clock offset against the database so every
+-- OBS machine counts down to scheduled_at in step.
+create or replace function public.server_now()
+returns timestamptz
+language sql
+stable
+as $$
+  select now()
+$$;
+
+grant execute on function public.server_now() to anon, authenticated;
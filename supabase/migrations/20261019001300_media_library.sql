@@ -0,0 +1,85 @@
+-- Personal media library: one row per file a browser uploaded to the images
+-- bucket. There are no user accounts, so each browser keeps a secret library
+-- token (sent in the x-media-library-token header) and rows are tied to its
+-- SHA-256 hash, the same way session control tokens work.
+create extension if not exists pgcrypto with schema extensions;
+
+create or replace function public.request_library_owner()
+returns text
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select encode(
+    digest(
+      coalesce(current_setting('request.headers', true), '{}')::json ->> 'x-media-library-token',
+      'sha256'
+    ),
+    'hex'
+  )
+$$;
+
+create table if not exists public.media_library (
+  id uuid primary key default gen_random_uuid(),
+  owner_hash text not null default public.request_library_owner(),
+  -- Uploads are keyed by content hash, so libraries can share an object.
+  storage_path text not null,
+  public_url text not null,
+  name text not null,
+  media_type text not null default 'image' check (media_type in ('image', 'video')),
+  tags text[] not null default '{}',
+  size_bytes bigint,
+  created_at timestamptz not null default now(),
+  unique (owner_hash, storage_path)
+);
+
+create index if not exists media_library_owner_created_at_idx
+  on public.media_library (owner_hash, created_at desc);
+
+alter table public.media_library enable row level security;
+
+drop policy if exists "Library items are readable by their owner" on public.media_library;
+create policy "Library items are readable by their owner"
+  on public.media_library for select
+  using (owner_hash = public.request_library_owner());
+
+drop policy if exists "Library items are insertable by their owner" on public.media_library;
+create policy "Library items are insertable by their owner"
+  on public.media_library for insert
+  with check (owner_hash = public.request_library_owner());
+
+drop policy if exists "Library items are updatable by their owner" on public.media_library;
+create policy "Library items are updatable by their owner"
+  on public.media_library for update
+  using (owner_hash = public.request_library_owner())
+  with check (owner_hash = public.request_library_owner());
+
+-- Deleting goes through this function so the caller learns whether any other
+-- library still points at the storage object before removing it.
+create or replace function public.delete_media_library_item(item_id uuid)
+returns table (storage_path text, is_shared boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deleted_path text;
+begin
+  delete from public.media_library m
+  where m.id = item_id
+    and m.owner_hash = public.request_library_owner()
+  returning m.storage_path into deleted_path;
+
+  if deleted_path is null then
+    return;
+  end if;
+
+  return query
+  select deleted_path,
+         exists (select 1 from public.media_library m where m.storage_path = deleted_path);
+end
+$$;
+
+revoke all on function public.delete_media_library_item(uuid) from public;
+grant execute on function public.delete_media_library_item(uuid) to anon, authenticated;
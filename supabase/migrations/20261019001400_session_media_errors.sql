@@ -0,0 +1,51 @@
+-- Browser sources report when the session's image fails to load, so the
+-- controller can warn about it. fallback_url is shown instead while the image
+-- keeps failing; null leaves the source transparent.
+alter table public.sessions
+  add column if not exists fallback_url text,
+  add column if not exists media_error_url text,
+  add column if not exists media_error_at timestamptz;
+
+-- A new image starts with a clean slate.
+create or replace function public.clear_session_media_error()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.image_url is distinct from old.image_url then
+    new.media_error_url := null;
+    new.media_error_at := null;
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists sessions_clear_media_error on public.sessions;
+create trigger sessions_clear_media_error
+  before update on public.sessions
+  for each row
+  execute function public.clear_session_media_error();
+
+-- Browser sources have no control token, so they report through this
+-- function. It can only flag or clear the image the session is showing right
+-- now, and it skips the write when nothing changes.
+create or replace function public.report_source_media_status(
+  target_session_id text,
+  media_url text,
+  failed boolean
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.sessions
+  set media_error_url = case when failed then media_url end,
+      media_error_at = case when failed then now() end
+  where id = target_session_id
+    and image_url = media_url
+    and media_error_url is distinct from (case when failed then media_url end)
+$$;
+
+revoke all on function public.report_source_media_status(text, text, boolean) from public;
+grant execute on function public.report_source_media_status(text, text, boolean) to anon, authenticated;
@@ -0,0 +1,39 @@
+-- Deleting a library item only removes its file from storage when nothing
+-- uses it any more. Besides other libraries, that now includes sessions: their
+-- main image, fallback image, playlist entries and layers. Otherwise deleting
+-- an upload could blank an overlay that is live on stream.
+create or replace function public.delete_media_library_item(item_id uuid)
+returns table (storage_path text, is_shared boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deleted_path text;
+  deleted_url text;
+begin
+  delete from public.media_library m
+  where m.id = item_id
+    and m.owner_hash = public.request_library_owner()
+  returning m.storage_path, m.public_url into deleted_path, deleted_url;
+
+  if deleted_path is null then
+    return;
+  end if;
+
+  return query
+  select deleted_path,
+         exists (select 1 from public.media_library m where m.storage_path = deleted_path)
+         or exists (
+           select 1
+           from public.sessions s
+           where s.image_url = deleted_url
+              or s.fallback_url = deleted_url
+              or exists (select 1 from jsonb_array_elements(s.playlist) e where e ->> 'url' = deleted_url)
+              or exists (select 1 from jsonb_array_elements(s.layers) e where e ->> 'url' = deleted_url)
+         );
+end
+$$;
+
+revoke all on function public.delete_media_library_item(uuid) from public;
+grant execute on function public.delete_media_library_item(uuid) to anon, authenticated;
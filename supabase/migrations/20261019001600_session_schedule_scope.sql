@@ -0,0 +1,68 @@
+-- apply_due_session_schedules used to treat a null session id as "every
+-- session", and anyone could call it. Browser sources and controllers now have
+-- to name their session; sweeping all sessions is a separate function that
+-- only pg_cron (and the service role) may run.
+drop function if exists public.apply_due_session_schedules(text);
+
+create or replace function public.apply_due_session_schedules(target_session_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if target_session_id is null then
+    raise exception 'target_session_id is required';
+  end if;
+
+  update public.sessions
+  set is_revealed = (scheduled_action = 'reveal'),
+      scheduled_action = null,
+      scheduled_at = null
+  where id = target_session_id
+    and scheduled_at <= now();
+
+  update public.sessions
+  set is_revealed = false
+  where id = target_session_id
+    and is_revealed
+    and hide_at <= now();
+end
+$$;
+
+revoke all on function public.apply_due_session_schedules(text) from public;
+grant execute on function public.apply_due_session_schedules(text) to anon, authenticated;
+
+create or replace function public.apply_all_due_session_schedules()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.sessions
+  set is_revealed = (scheduled_action = 'reveal'),
+      scheduled_action = null,
+      scheduled_at = null
+  where scheduled_at <= now();
+
+  update public.sessions
+  set is_revealed = false
+  where is_revealed
+    and hide_at <= now();
+end
+$$;
+
+revoke all on function public.apply_all_due_session_schedules() from public, anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'apply-session-schedules',
+      '5 seconds',
+      'select public.apply_all_due_session_schedules()'
+    );
+  end if;
+end
+$$;
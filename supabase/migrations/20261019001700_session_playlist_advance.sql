@@ -0,0 +1,107 @@
+-- Playlist auto-advance used to run in the controller tab, so closing it froze
+-- the stream on one image. The session now stores when the next entry is due
+-- (advance_at), and the same functions that fire timed reveals advance the
+-- playlist: open browser sources call them at the due moment and pg_cron
+-- covers the case where nothing is open.
+alter table public.sessions
+  add column if not exists advance_at timestamptz;
+
+-- Any change of entry, interval or playlist restarts the countdown to the
+-- next entry; turning auto-advance off (or a playlist of one) clears it.
+create or replace function public.sync_session_advance_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.auto_advance_seconds is null or jsonb_array_length(new.playlist) < 2 then
+    new.advance_at := null;
+  elsif tg_op = 'INSERT'
+    or new.advance_at is null
+    or new.playlist_index is distinct from old.playlist_index
+    or new.playlist is distinct from old.playlist
+    or new.auto_advance_seconds is distinct from old.auto_advance_seconds then
+    new.advance_at := now() + make_interval(secs => new.auto_advance_seconds);
+  end if;
+  return new;
+end
+$$;
+
+drop trigger if exists sessions_sync_advance_at on public.sessions;
+create trigger sessions_sync_advance_at
+  before insert or update on public.sessions
+  for each row
+  execute function public.sync_session_advance_at();
+
+update public.sessions
+set advance_at = now() + make_interval(secs => auto_advance_seconds)
+where auto_advance_seconds is not null
+  and jsonb_array_length(playlist) > 1;
+
+-- Moves due sessions to their next playlist entry. The trigger above then
+-- sets the following advance_at. A null target means every session.
+create or replace function public.advance_due_session_playlists(target_session_id text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.sessions
+  set playlist_index = (playlist_index + 1) % jsonb_array_length(playlist),
+      image_url = playlist -> ((playlist_index + 1) % jsonb_array_length(playlist)) ->> 'url',
+      media_type = coalesce(playlist -> ((playlist_index + 1) % jsonb_array_length(playlist)) ->> 'mediaType', 'image')
+  where advance_at <= now()
+    and jsonb_array_length(playlist) > 1
+    and (target_session_id is null or id = target_session_id);
+$$;
+
+revoke all on function public.advance_due_session_playlists(text) from public, anon, authenticated;
+
+create or replace function public.apply_due_session_schedules(target_session_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if target_session_id is null then
+    raise exception 'target_session_id is required';
+  end if;
+
+  update public.sessions
+  set is_revealed = (scheduled_action = 'reveal'),
+      scheduled_action = null,
+      scheduled_at = null
+  where id = target_session_id
+    and scheduled_at <= now();
+
+  update public.sessions
+  set is_revealed = false
+  where id = target_session_id
+    and is_revealed
+    and hide_at <= now();
+
+  perform public.advance_due_session_playlists(target_session_id);
+end
+$$;
+
+create or replace function public.apply_all_due_session_schedules()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.sessions
+  set is_revealed = (scheduled_action = 'reveal'),
+      scheduled_action = null,
+      scheduled_at = null
+  where scheduled_at <= now();
+
+  update public.sessions
+  set is_revealed = false
+  where is_revealed
+    and hide_at <= now();
+
+  perform public.advance_due_session_playlists(null);
+end
+$$;
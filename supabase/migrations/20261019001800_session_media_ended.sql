@@ -0,0 +1,23 @@
+-- "Play once, then hide" used to be applied by the controller when its preview
+-- ended, so it never fired with the controller closed or when the browser
+-- blocked the preview's autoplay (unmuted clips). Browser sources now report
+-- the end of a clip themselves. Like report_source_media_status, this can
+-- only touch the clip the session is showing, and only when that clip is set
+-- to hide once it finishes.
+create or replace function public.report_source_media_ended(target_session_id text, media_url text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.sessions
+  set is_revealed = false
+  where id = target_session_id
+    and image_url = media_url
+    and media_type = 'video'
+    and is_revealed
+    and media_options -> 'hideOnEnd' = 'true'::jsonb
+$$;
+
+revoke all on function public.report_source_media_ended(text, text) from public;
+grant execute on function public.report_source_media_ended(text, text) to anon, authenticated;